@@ -11,6 +11,11 @@ import OrderHistory from "./pages/OrderHistory";
 import VendorDashboard from "./pages/VendorDashboard";
 import VendorRegistration from "./pages/VendorRegistration";
 import MenuManagement from "./pages/MenuManagement";
+import CanteenSettings from "./pages/CanteenSettings";
+import VendorAnalytics from "./pages/VendorAnalytics";
+import SettlementReport from "./pages/SettlementReport";
+import KitchenDisplay from "./pages/KitchenDisplay";
+import DisplayBoard from "./pages/DisplayBoard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +35,11 @@ const App = () => (
         <Route path="/vendor" element={<VendorDashboard />} />
         <Route path="/vendor/register" element={<VendorRegistration />} />
         <Route path="/vendor/menu" element={<MenuManagement />} />
+        <Route path="/vendor/settings" element={<CanteenSettings />} />
+        <Route path="/vendor/analytics" element={<VendorAnalytics />} />
+        <Route path="/vendor/reports" element={<SettlementReport />} />
+        <Route path="/vendor/kitchen" element={<KitchenDisplay />} />
+          <Route path="/display/:canteenId" element={<DisplayBoard />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
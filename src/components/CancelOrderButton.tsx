@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { cancelOrder } from "@/integrations/supabase/orders";
+
+interface CancelOrderButtonProps {
+  orderId: string;
+  onCancelled?: () => void;
+  className?: string;
+}
+
+const CancelOrderButton = ({ orderId, onCancelled, className }: CancelOrderButtonProps) => {
+  const [cancelling, setCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      await cancelOrder(orderId);
+      toast.success("Order cancelled");
+      onCancelled?.();
+    } catch (error) {
+      console.error("Error cancelling order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel order");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className} disabled={cancelling}>
+          <XCircle className="h-4 w-4 mr-2" />
+          {cancelling ? "Cancelling..." : "Cancel Order"}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The canteen will be notified and your pickup code will stop working.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Order</AlertDialogCancel>
+          <AlertDialogAction onClick={handleCancel}>Cancel Order</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export { CancelOrderButton };
@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import type { CanteenStatus } from "@/integrations/supabase/canteens";
+import { describeCanteenStatus } from "@/lib/canteenHours";
+import { cn } from "@/lib/utils";
+
+interface CanteenStatusBadgeProps {
+  status: CanteenStatus | null | undefined;
+  className?: string;
+}
+
+const CanteenStatusBadge = ({ status, className }: CanteenStatusBadgeProps) => {
+  const { label, badgeVariant, badgeClassName } = describeCanteenStatus(status);
+
+  return (
+    <Badge variant={badgeVariant} className={cn(badgeClassName, className)}>
+      {label}
+    </Badge>
+  );
+};
+
+export { CanteenStatusBadge };
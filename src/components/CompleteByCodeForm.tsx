@@ -0,0 +1,53 @@
+import { FormEvent, useState } from "react";
+import { PackageCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { completeOrderByCode } from "@/integrations/supabase/orders";
+
+interface CompleteByCodeFormProps {
+  canteenId: string;
+  onCompleted?: () => void;
+}
+
+const CompleteByCodeForm = ({ canteenId, onCompleted }: CompleteByCodeFormProps) => {
+  const [code, setCode] = useState("");
+  const [completing, setCompleting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (code.length !== 6) return;
+
+    setCompleting(true);
+    try {
+      const order = await completeOrderByCode(canteenId, code);
+      toast.success(`Order #${order.pickup_code} handed over`);
+      setCode("");
+      onCompleted?.();
+    } catch (error) {
+      console.error("Error completing order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to complete order");
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+        placeholder="Pickup code"
+        inputMode="numeric"
+        aria-label="Pickup code to hand over"
+        className="w-32 font-mono"
+      />
+      <Button type="submit" disabled={code.length !== 6 || completing}>
+        <PackageCheck className="h-4 w-4 mr-2" />
+        {completing ? "Handing over..." : "Hand Over"}
+      </Button>
+    </form>
+  );
+};
+
+export { CompleteByCodeForm };
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { Copy, ExternalLink, Plus, Tv } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { displayUrl, revokeDisplayToken } from "@/integrations/supabase/display";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+type DisplayToken = {
+  id: string;
+  token: string;
+  label: string;
+  created_at: string;
+  last_seen_at: string | null;
+};
+
+interface DisplayTokensCardProps {
+  canteenId: string;
+}
+
+const DisplayTokensCard = ({ canteenId }: DisplayTokensCardProps) => {
+  const [tokens, setTokens] = useState<DisplayToken[]>([]);
+  const [label, setLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [canteenId]);
+
+  const fetchTokens = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("display_tokens")
+        .select("id, token, label, created_at, last_seen_at")
+        .eq("canteen_id", canteenId)
+        .is("revoked_at", null)
+        .order("created_at");
+
+      if (error) throw error;
+      setTokens(data || []);
+    } catch (error) {
+      console.error("Error fetching display links:", error);
+      toast.error("Failed to load display links");
+    }
+  };
+
+  const addToken = async () => {
+    if (!label.trim()) {
+      toast.error("Please name the screen, e.g. \"Counter TV\"");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("display_tokens")
+        .insert({ canteen_id: canteenId, label: label.trim() });
+
+      if (error) throw error;
+      toast.success("Display link created!");
+      setLabel("");
+      fetchTokens();
+    } catch (error) {
+      console.error("Error creating display link:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create display link");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeToken = async (tokenId: string) => {
+    try {
+      await revokeDisplayToken(tokenId);
+      toast.success("Display link revoked");
+      fetchTokens();
+    } catch (error) {
+      console.error("Error revoking display link:", error);
+      toast.error("Failed to revoke display link");
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(displayUrl(canteenId, token));
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pickup Display</CardTitle>
+        <CardDescription>
+          Links for a screen by the counter showing which pickup codes are ready. Anyone with a
+          link sees the codes, so revoke links for screens you no longer use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No display links yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    <Tv className="h-4 w-4" />
+                    {token.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.last_seen_at
+                      ? `Last seen ${format(new Date(token.last_seen_at), "d MMM, HH:mm")}`
+                      : `Created ${format(new Date(token.created_at), "d MMM")}, not opened yet`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button size="icon" variant="ghost" onClick={() => copyLink(token.token)} title="Copy link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" asChild title="Open display">
+                    <a href={displayUrl(canteenId, token.token)} target="_blank" rel="noreferrer">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" variant="ghost" className="text-destructive">
+                        Revoke
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke "{token.label}"?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The screen using this link stops updating straight away. This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Keep</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => revokeToken(token.id)}>Revoke</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="displayLabel">Screen name</Label>
+            <Input
+              id="displayLabel"
+              placeholder="Counter TV"
+              maxLength={60}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addToken} disabled={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? "Creating..." : "Create Link"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export { DisplayTokensCard };
@@ -0,0 +1,68 @@
+import { useRef, useState } from "react";
+import { ImagePlus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { uploadMenuImage } from "@/integrations/supabase/storage";
+
+interface ImageUploadFieldProps {
+  canteenId: string;
+  label: string;
+  value: string | null;
+  onChange: (url: string | null) => void;
+}
+
+const ImageUploadField = ({ canteenId, label, value, onChange }: ImageUploadFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      onChange(await uploadMenuImage(canteenId, file));
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to upload image");
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {value && (
+        <img src={value} alt={label} className="h-32 w-full rounded-md border object-cover" />
+      )}
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          disabled={uploading}
+          onClick={() => inputRef.current?.click()}
+        >
+          <ImagePlus className="h-4 w-4 mr-2" />
+          {uploading ? "Uploading..." : value ? "Replace Image" : "Upload Image"}
+        </Button>
+        {value && (
+          <Button type="button" variant="outline" size="icon" onClick={() => onChange(null)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </div>
+  );
+};
+
+export { ImageUploadField };
@@ -0,0 +1,23 @@
+import { ReactNode, useEffect, useState } from "react";
+
+interface ImageWithFallbackProps {
+  src: string | null;
+  alt: string;
+  className?: string;
+  fallback: ReactNode;
+}
+
+// Renders the fallback when there is no image or it fails to load
+const ImageWithFallback = ({ src, alt, className, fallback }: ImageWithFallbackProps) => {
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [src]);
+
+  if (!src || failed) return <>{fallback}</>;
+
+  return <img src={src} alt={alt} loading="lazy" className={className} onError={() => setFailed(true)} />;
+};
+
+export { ImageWithFallback };
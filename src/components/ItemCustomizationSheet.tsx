@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  MenuOptionGroup,
+  SelectedOption,
+  describeGroupRule,
+  formatPriceDelta,
+  isSingleChoice,
+  optionsPriceDelta,
+  toSelectedOptions,
+  validateOptionSelection,
+} from "@/lib/menuOptions";
+
+interface ItemCustomizationSheetProps {
+  item: { id: string; name: string; description: string | null; price: number } | null;
+  groups: MenuOptionGroup[];
+  onOpenChange: (open: boolean) => void;
+  onAdd: (options: SelectedOption[]) => void;
+}
+
+const ItemCustomizationSheet = ({ item, groups, onOpenChange, onAdd }: ItemCustomizationSheetProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Start every item with the first choice of required single-choice groups
+  useEffect(() => {
+    setSelectedIds(
+      groups
+        .filter((group) => isSingleChoice(group) && group.min_select > 0)
+        .map((group) => group.menu_options[0].id)
+    );
+  }, [item?.id]);
+
+  const selectSingle = (group: MenuOptionGroup, optionId: string) => {
+    const groupIds = group.menu_options.map((option) => option.id);
+    setSelectedIds((prev) => [...prev.filter((id) => !groupIds.includes(id)), optionId]);
+  };
+
+  const toggleMultiple = (optionId: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, optionId] : prev.filter((id) => id !== optionId)));
+  };
+
+  const error = validateOptionSelection(groups, selectedIds);
+  const selected = toSelectedOptions(groups, selectedIds);
+  const unitPrice = (item?.price ?? 0) + optionsPriceDelta(selected);
+
+  return (
+    <Sheet open={item !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto sm:max-w-lg sm:mx-auto">
+        <SheetHeader>
+          <SheetTitle>{item?.name}</SheetTitle>
+          {item?.description && <SheetDescription>{item.description}</SheetDescription>}
+        </SheetHeader>
+
+        <div className="space-y-6 py-4">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-3">
+              <div>
+                <p className="font-medium">{group.name}</p>
+                <p className="text-xs text-muted-foreground">{describeGroupRule(group)}</p>
+              </div>
+              {isSingleChoice(group) ? (
+                <RadioGroup
+                  value={group.menu_options.find((option) => selectedIds.includes(option.id))?.id ?? ""}
+                  onValueChange={(value) => selectSingle(group, value)}
+                >
+                  {group.menu_options.map((option) => (
+                    <div key={option.id} className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value={option.id} id={`option-${option.id}`} />
+                        <Label htmlFor={`option-${option.id}`} className="font-normal">
+                          {option.name}
+                        </Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatPriceDelta(option.price_delta)}</span>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <div className="space-y-2">
+                  {group.menu_options.map((option) => (
+                    <div key={option.id} className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`option-${option.id}`}
+                          checked={selectedIds.includes(option.id)}
+                          onCheckedChange={(checked) => toggleMultiple(option.id, checked === true)}
+                        />
+                        <Label htmlFor={`option-${option.id}`} className="font-normal">
+                          {option.name}
+                        </Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatPriceDelta(option.price_delta)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Separator />
+            </div>
+          ))}
+        </div>
+
+        <SheetFooter className="flex-col gap-2 sm:flex-col">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button className="w-full" disabled={error !== null} onClick={() => onAdd(selected)}>
+            Add to Cart · ₹{unitPrice.toFixed(2)}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export { ItemCustomizationSheet };
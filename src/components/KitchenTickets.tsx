@@ -0,0 +1,82 @@
+import { format } from "date-fns";
+import { SelectedOption } from "@/lib/menuOptions";
+import { TicketPaperWidth } from "@/lib/kitchenTickets";
+
+export interface KitchenTicketOrder {
+  id: string;
+  pickup_code: string;
+  created_at: string;
+  pickup_at: string | null;
+  notes: string | null;
+  profiles: {
+    name: string;
+  };
+  order_items: {
+    id: string;
+    quantity: number;
+    rejection_reason: string | null;
+    selected_options: SelectedOption[];
+    menu_items: {
+      name: string;
+    };
+  }[];
+}
+
+interface KitchenTicketsProps {
+  orders: KitchenTicketOrder[];
+  paperWidth: TicketPaperWidth;
+  canteenName: string;
+}
+
+// Print-only layout for thermal rolls: one ticket per page so the printer
+// cuts between orders. Render it only while printing, since the @page rule
+// applies to the whole document.
+const KitchenTickets = ({ orders, paperWidth, canteenName }: KitchenTicketsProps) => {
+  return (
+    <div className="hidden print:block bg-white text-black font-mono text-xs">
+      <style>{`@page { size: ${paperWidth} auto; margin: 0; }`}</style>
+      {orders.map((order) => (
+        <section
+          key={order.id}
+          className="p-[3mm] break-after-page"
+          style={{ width: paperWidth }}
+        >
+          <p className="text-center">{canteenName}</p>
+          <p className="text-center text-3xl font-bold my-1">#{order.pickup_code}</p>
+          <p className="text-center text-sm font-bold">{order.profiles.name}</p>
+          <p className="text-center">{format(new Date(order.created_at), "d MMM p")}</p>
+          {order.pickup_at && (
+            <p className="text-center font-bold">Pickup at {format(new Date(order.pickup_at), "p")}</p>
+          )}
+          <div className="my-2 border-t border-dashed border-black" />
+          <ul className="space-y-1">
+            {order.order_items
+              .filter((item) => !item.rejection_reason)
+              .map((item) => (
+                <li key={item.id}>
+                  <p className="text-sm font-bold">
+                    {item.quantity} x {item.menu_items.name}
+                  </p>
+                  {item.selected_options.map((option) => (
+                    <p key={option.option_id} className="pl-4">
+                      + {option.group_name}: {option.name}
+                    </p>
+                  ))}
+                </li>
+              ))}
+          </ul>
+          {order.notes && (
+            <>
+              <div className="my-2 border-t border-dashed border-black" />
+              <p className="font-bold">NOTE:</p>
+              <p className="whitespace-pre-wrap break-words">{order.notes}</p>
+            </>
+          )}
+          <div className="my-2 border-t border-dashed border-black" />
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export { KitchenTickets };
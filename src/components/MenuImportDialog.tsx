@@ -0,0 +1,200 @@
+import { useRef, useState } from "react";
+import { FileUp, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { importMenuItems } from "@/integrations/supabase/menu";
+import type { MenuCategory } from "@/lib/menuCategories";
+import { MENU_FILE_COLUMNS, menuFileFormat, readMenuFile, validateMenuImport } from "@/lib/menuImport";
+
+interface MenuImportDialogProps {
+  canteenId: string;
+  menuItems: { name: string }[];
+  categories: MenuCategory[];
+  onImported: () => void;
+}
+
+const MenuImportDialog = ({ canteenId, menuItems, categories, onImported }: MenuImportDialogProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [createCategories, setCreateCategories] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const rows = validateMenuImport(records, menuItems, categories, createCategories);
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const createCount = rows.filter((row) => row.action === "create").length;
+
+  const reset = () => {
+    setFileName(null);
+    setRecords([]);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const format = menuFileFormat(file.name);
+    try {
+      if (!format) throw new Error("Please choose a .csv or .json file");
+      const parsed = readMenuFile(await file.text(), format);
+      if (parsed.length === 0) throw new Error("The file has no items");
+
+      setRecords(parsed);
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Error reading menu file:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read the file");
+      reset();
+    }
+  };
+
+  const handleImport = async () => {
+    if (rows.length === 0 || invalidCount > 0) return;
+
+    setImporting(true);
+    try {
+      const result = await importMenuItems(
+        canteenId,
+        rows.map(({ row, action, newCategory, overwrites, errors, ...item }) => item)
+      );
+      toast.success(`Imported ${result.inserted} new and updated ${result.updated} existing items`);
+      setOpen(false);
+      reset();
+      onImported();
+    } catch (error) {
+      console.error("Error importing menu:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import menu");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Menu</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with the columns {MENU_FILE_COLUMNS.join(", ")}. Only name and price are
+            required. Items with the same name as an existing item are updated, keeping their current values for
+            columns the file leaves out; the rest are added. Export your menu to get a file to start from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button type="button" variant="outline" className="w-full" onClick={() => inputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileName ?? "Choose File"}
+          </Button>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="createCategories">Create categories that do not exist yet</Label>
+            <Switch id="createCategories" checked={createCategories} onCheckedChange={setCreateCategories} />
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {createCount} new, {rows.length - createCount} to update
+                {invalidCount > 0 && (
+                  <span className="text-destructive">, {invalidCount} with problems to fix before importing</span>
+                )}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell>{Number.isFinite(row.price) ? `₹${row.price.toFixed(2)}` : "—"}</TableCell>
+                      <TableCell>
+                        {row.category === undefined && row.action === "update" ? (
+                          <span className="text-muted-foreground">Unchanged</span>
+                        ) : (
+                          row.category ?? <span className="text-muted-foreground">Other</span>
+                        )}
+                        {row.newCategory && createCategories && (
+                          <span className="text-xs text-muted-foreground"> (new)</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant={row.action === "create" ? "default" : "secondary"}>
+                              {row.action === "create" ? "New" : "Update"}
+                            </Badge>
+                            {row.overwrites.length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                Replaces {row.overwrites.join(", ")}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={importing || rows.length === 0 || invalidCount > 0}>
+            {importing ? "Importing..." : `Import ${rows.length} Items`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { MenuImportDialog };
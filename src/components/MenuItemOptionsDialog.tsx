@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { MenuOptionGroup, describeGroupRule, formatPriceDelta } from "@/lib/menuOptions";
+
+interface MenuItemOptionsDialogProps {
+  menuItemId: string;
+  itemName: string;
+}
+
+const emptyGroup = { name: "", min_select: "0", max_select: "1" };
+const emptyOption = { name: "", price_delta: "" };
+
+const MenuItemOptionsDialog = ({ menuItemId, itemName }: MenuItemOptionsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [groups, setGroups] = useState<MenuOptionGroup[]>([]);
+  const [newGroup, setNewGroup] = useState(emptyGroup);
+  const [newOptions, setNewOptions] = useState<Record<string, typeof emptyOption>>({});
+
+  useEffect(() => {
+    if (open) fetchGroups();
+  }, [open, menuItemId]);
+
+  const fetchGroups = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("menu_option_groups")
+        .select("*, menu_options(*)")
+        .eq("menu_item_id", menuItemId)
+        .order("sort_order")
+        .order("sort_order", { referencedTable: "menu_options" });
+
+      if (error) throw error;
+      setGroups(data || []);
+    } catch (error) {
+      console.error("Error fetching options:", error);
+      toast.error("Failed to load options");
+    }
+  };
+
+  const addGroup = async () => {
+    if (!newGroup.name.trim()) {
+      toast.error("Please enter a name for the group");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("menu_option_groups").insert({
+        menu_item_id: menuItemId,
+        name: newGroup.name.trim(),
+        min_select: parseInt(newGroup.min_select, 10) || 0,
+        max_select: newGroup.max_select ? parseInt(newGroup.max_select, 10) : null,
+        sort_order: Math.max(0, ...groups.map((group) => group.sort_order)) + 1,
+      });
+
+      if (error) throw error;
+      setNewGroup(emptyGroup);
+      fetchGroups();
+    } catch (error) {
+      console.error("Error adding option group:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add option group");
+    }
+  };
+
+  const addOption = async (group: MenuOptionGroup) => {
+    const draft = newOptions[group.id] ?? emptyOption;
+    if (!draft.name.trim()) {
+      toast.error("Please enter a name for the option");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("menu_options").insert({
+        group_id: group.id,
+        name: draft.name.trim(),
+        price_delta: draft.price_delta ? parseFloat(draft.price_delta) : 0,
+        sort_order: Math.max(0, ...group.menu_options.map((option) => option.sort_order)) + 1,
+      });
+
+      if (error) throw error;
+      setNewOptions({ ...newOptions, [group.id]: emptyOption });
+      fetchGroups();
+    } catch (error) {
+      console.error("Error adding option:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add option");
+    }
+  };
+
+  const toggleOption = async (optionId: string, isAvailable: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("menu_options")
+        .update({ is_available: isAvailable })
+        .eq("id", optionId);
+
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      console.error("Error updating option:", error);
+      toast.error("Failed to update option");
+    }
+  };
+
+  const deleteRow = async (table: "menu_option_groups" | "menu_options", id: string) => {
+    try {
+      const { error } = await supabase.from(table).delete().eq("id", id);
+
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      console.error("Error deleting option:", error);
+      toast.error("Failed to delete");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" title="Options">
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Options for {itemName}</DialogTitle>
+          <DialogDescription>
+            Let students customise this item, e.g. spice level or extra toppings
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map((group) => {
+            const draft = newOptions[group.id] ?? emptyOption;
+            return (
+              <div key={group.id} className="space-y-3 rounded-md border p-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{group.name}</p>
+                    <p className="text-xs text-muted-foreground">{describeGroupRule(group)}</p>
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => deleteRow("menu_option_groups", group.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {group.menu_options.map((option) => (
+                  <div key={option.id} className="flex items-center justify-between text-sm">
+                    <span className={option.is_available ? "" : "text-muted-foreground line-through"}>
+                      {option.name}{" "}
+                      <span className="text-muted-foreground">{formatPriceDelta(option.price_delta)}</span>
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={option.is_available}
+                        onCheckedChange={(checked) => toggleOption(option.id, checked)}
+                      />
+                      <Button size="icon" variant="ghost" onClick={() => deleteRow("menu_options", option.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Option, e.g. Extra cheese"
+                    value={draft.name}
+                    onChange={(e) => setNewOptions({ ...newOptions, [group.id]: { ...draft, name: e.target.value } })}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="+₹"
+                    className="w-24"
+                    value={draft.price_delta}
+                    onChange={(e) =>
+                      setNewOptions({ ...newOptions, [group.id]: { ...draft, price_delta: e.target.value } })
+                    }
+                  />
+                  <Button size="icon" variant="outline" onClick={() => addOption(group)}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          <Separator />
+
+          <div className="space-y-3">
+            <Label>New option group</Label>
+            <Input
+              placeholder="e.g. Spice level"
+              value={newGroup.name}
+              onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`${menuItemId}-min`} className="text-xs">
+                  Minimum choices (0 = optional)
+                </Label>
+                <Input
+                  id={`${menuItemId}-min`}
+                  type="number"
+                  min="0"
+                  value={newGroup.min_select}
+                  onChange={(e) => setNewGroup({ ...newGroup, min_select: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${menuItemId}-max`} className="text-xs">
+                  Maximum choices (empty = no limit)
+                </Label>
+                <Input
+                  id={`${menuItemId}-max`}
+                  type="number"
+                  min="1"
+                  value={newGroup.max_select}
+                  onChange={(e) => setNewGroup({ ...newGroup, max_select: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button type="button" variant="outline" className="w-full" onClick={addGroup}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Group
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { MenuItemOptionsDialog };
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { DAYS_OF_WEEK, formatTime } from "@/lib/canteenHours";
+import { MenuItemSchedule } from "@/lib/menuSchedules";
+
+interface MenuItemScheduleDialogProps {
+  menuItemId: string;
+  itemName: string;
+}
+
+// "Every day" adds one window per day of the week
+const EVERY_DAY = "all";
+
+const emptyWindow = { day_of_week: EVERY_DAY, starts_at: "", ends_at: "" };
+
+const MenuItemScheduleDialog = ({ menuItemId, itemName }: MenuItemScheduleDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [windows, setWindows] = useState<MenuItemSchedule[]>([]);
+  const [newWindow, setNewWindow] = useState(emptyWindow);
+
+  useEffect(() => {
+    if (open) fetchWindows();
+  }, [open, menuItemId]);
+
+  const fetchWindows = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("menu_item_schedules")
+        .select("*")
+        .eq("menu_item_id", menuItemId)
+        .order("day_of_week")
+        .order("starts_at");
+
+      if (error) throw error;
+      setWindows(data || []);
+    } catch (error) {
+      console.error("Error fetching schedule:", error);
+      toast.error("Failed to load schedule");
+    }
+  };
+
+  const addWindow = async () => {
+    if (!newWindow.starts_at || !newWindow.ends_at) {
+      toast.error("Please fill in the start and end time");
+      return;
+    }
+
+    const days =
+      newWindow.day_of_week === EVERY_DAY
+        ? DAYS_OF_WEEK.map((_, idx) => idx)
+        : [parseInt(newWindow.day_of_week, 10)];
+
+    try {
+      const { error } = await supabase.from("menu_item_schedules").insert(
+        days.map((day) => ({
+          menu_item_id: menuItemId,
+          day_of_week: day,
+          starts_at: newWindow.starts_at,
+          ends_at: newWindow.ends_at,
+        }))
+      );
+
+      if (error) throw error;
+      setNewWindow({ ...emptyWindow, day_of_week: newWindow.day_of_week });
+      fetchWindows();
+    } catch (error) {
+      console.error("Error adding schedule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add time window");
+    }
+  };
+
+  const deleteWindow = async (id: string) => {
+    try {
+      const { error } = await supabase.from("menu_item_schedules").delete().eq("id", id);
+
+      if (error) throw error;
+      fetchWindows();
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      toast.error("Failed to delete");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" title="Schedule">
+          <CalendarClock className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule for {itemName}</DialogTitle>
+          <DialogDescription>
+            Only offer this item at certain times, e.g. breakfast until 11:00. Without any windows it is
+            available whenever you are open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {windows.length > 0 && (
+            <div className="space-y-2">
+              {windows.map((row) => (
+                <div key={row.id} className="flex items-center justify-between rounded-md border p-3">
+                  <p className="text-sm">
+                    <span className="font-medium">{DAYS_OF_WEEK[row.day_of_week]}</span>{" "}
+                    {formatTime(row.starts_at)} – {formatTime(row.ends_at)}
+                  </p>
+                  <Button size="icon" variant="ghost" onClick={() => deleteWindow(row.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label>Day</Label>
+              <Select
+                value={newWindow.day_of_week}
+                onValueChange={(value) => setNewWindow({ ...newWindow, day_of_week: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERY_DAY}>Every day</SelectItem>
+                  {DAYS_OF_WEEK.map((day, idx) => (
+                    <SelectItem key={day} value={idx.toString()}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheduleStarts">From</Label>
+              <Input
+                id="scheduleStarts"
+                type="time"
+                value={newWindow.starts_at}
+                onChange={(e) => setNewWindow({ ...newWindow, starts_at: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheduleEnds">Until</Label>
+              <Input
+                id="scheduleEnds"
+                type="time"
+                value={newWindow.ends_at}
+                onChange={(e) => setNewWindow({ ...newWindow, ends_at: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button type="button" variant="outline" className="w-full" onClick={addWindow}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Time Window
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { MenuItemScheduleDialog };
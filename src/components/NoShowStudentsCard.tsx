@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type StudentNoShows = {
+  student_id: string;
+  no_show_count: number;
+  last_no_show_at: string | null;
+  name: string;
+};
+
+interface NoShowStudentsCardProps {
+  canteenId: string;
+  threshold: number | null;
+}
+
+const NoShowStudentsCard = ({ canteenId, threshold }: NoShowStudentsCardProps) => {
+  const [students, setStudents] = useState<StudentNoShows[]>([]);
+
+  useEffect(() => {
+    fetchStudents();
+  }, [canteenId]);
+
+  const fetchStudents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("student_no_shows")
+        .select("*")
+        .eq("canteen_id", canteenId)
+        .gt("no_show_count", 0)
+        .order("no_show_count", { ascending: false });
+
+      if (error) throw error;
+
+      // Fetch student profiles separately
+      const { data: profilesData } = await supabase
+        .from("profiles")
+        .select("id, name")
+        .in("id", data.map((row) => row.student_id));
+
+      const profilesMap = new Map(profilesData?.map((p) => [p.id, p.name]) || []);
+
+      setStudents(
+        data.map((row) => ({
+          student_id: row.student_id,
+          no_show_count: row.no_show_count,
+          last_no_show_at: row.last_no_show_at,
+          name: profilesMap.get(row.student_id) || "Unknown",
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching no-shows:", error);
+      toast.error("Failed to load no-shows");
+    }
+  };
+
+  const resetStudent = async (student: StudentNoShows) => {
+    try {
+      const { error } = await supabase
+        .from("student_no_shows")
+        .update({ no_show_count: 0 })
+        .eq("canteen_id", canteenId)
+        .eq("student_id", student.student_id);
+
+      if (error) throw error;
+      toast.success(`No-shows reset for ${student.name}`);
+      fetchStudents();
+    } catch (error) {
+      console.error("Error resetting no-shows:", error);
+      toast.error("Failed to reset no-shows");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Students With No-shows</CardTitle>
+        <CardDescription>
+          Reset a student's count once you have sorted things out with them
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {students.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No missed pickups so far.</p>
+        ) : (
+          <div className="space-y-2">
+            {students.map((student) => (
+              <div key={student.student_id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {student.name}
+                    {threshold !== null && student.no_show_count >= threshold && (
+                      <Badge variant="destructive">Restricted</Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {student.no_show_count} no-show{student.no_show_count === 1 ? "" : "s"}
+                    {student.last_no_show_at &&
+                      `, last on ${format(new Date(student.last_no_show_at), "d MMM")}`}
+                  </p>
+                </div>
+                <Button type="button" size="sm" variant="ghost" onClick={() => resetStudent(student)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { NoShowStudentsCard };
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DAYS_OF_WEEK, formatTime } from "@/lib/canteenHours";
+
+type OpeningHours = {
+  id: string;
+  day_of_week: number;
+  opens_at: string;
+  closes_at: string;
+};
+
+type CanteenException = {
+  id: string;
+  date: string;
+  opens_at: string | null;
+  closes_at: string | null;
+  note: string | null;
+};
+
+interface OpeningHoursCardProps {
+  canteenId: string;
+}
+
+const emptyHours = { day_of_week: "1", opens_at: "", closes_at: "" };
+const emptyException = { date: "", opens_at: "", closes_at: "", note: "" };
+
+const OpeningHoursCard = ({ canteenId }: OpeningHoursCardProps) => {
+  const [hours, setHours] = useState<OpeningHours[]>([]);
+  const [exceptions, setExceptions] = useState<CanteenException[]>([]);
+  const [newHours, setNewHours] = useState(emptyHours);
+  const [newException, setNewException] = useState(emptyException);
+
+  useEffect(() => {
+    fetchHours();
+  }, [canteenId]);
+
+  const fetchHours = async () => {
+    try {
+      const { data: hoursData, error: hoursError } = await supabase
+        .from("canteen_opening_hours")
+        .select("*")
+        .eq("canteen_id", canteenId)
+        .order("day_of_week")
+        .order("opens_at");
+
+      if (hoursError) throw hoursError;
+      setHours(hoursData || []);
+
+      const { data: exceptionsData, error: exceptionsError } = await supabase
+        .from("canteen_exceptions")
+        .select("*")
+        .eq("canteen_id", canteenId)
+        .gte("date", format(new Date(), "yyyy-MM-dd"))
+        .order("date");
+
+      if (exceptionsError) throw exceptionsError;
+      setExceptions(exceptionsData || []);
+    } catch (error) {
+      console.error("Error fetching opening hours:", error);
+      toast.error("Failed to load opening hours");
+    }
+  };
+
+  const addHours = async () => {
+    if (!newHours.opens_at || !newHours.closes_at) {
+      toast.error("Please fill in the opening and closing time");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("canteen_opening_hours").insert({
+        canteen_id: canteenId,
+        day_of_week: parseInt(newHours.day_of_week, 10),
+        opens_at: newHours.opens_at,
+        closes_at: newHours.closes_at,
+      });
+
+      if (error) throw error;
+      setNewHours({ ...emptyHours, day_of_week: newHours.day_of_week });
+      fetchHours();
+    } catch (error) {
+      console.error("Error adding opening hours:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add opening hours");
+    }
+  };
+
+  const addException = async () => {
+    if (!newException.date) {
+      toast.error("Please choose a date");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("canteen_exceptions").insert({
+        canteen_id: canteenId,
+        date: newException.date,
+        opens_at: newException.opens_at || null,
+        closes_at: newException.closes_at || null,
+        note: newException.note || null,
+      });
+
+      if (error) throw error;
+      setNewException(emptyException);
+      fetchHours();
+    } catch (error) {
+      console.error("Error adding exception:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add holiday");
+    }
+  };
+
+  const deleteRow = async (table: "canteen_opening_hours" | "canteen_exceptions", id: string) => {
+    try {
+      const { error } = await supabase.from(table).delete().eq("id", id);
+
+      if (error) throw error;
+      fetchHours();
+    } catch (error) {
+      console.error("Error deleting opening hours:", error);
+      toast.error("Failed to delete");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Opening Hours</CardTitle>
+        <CardDescription>
+          Students can only order while you are open. Without any hours you are treated as always open.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {hours.length > 0 && (
+          <div className="space-y-2">
+            {hours.map((row) => (
+              <div key={row.id} className="flex items-center justify-between rounded-md border p-3">
+                <p className="text-sm">
+                  <span className="font-medium">{DAYS_OF_WEEK[row.day_of_week]}</span>{" "}
+                  {formatTime(row.opens_at)} – {formatTime(row.closes_at)}
+                </p>
+                <Button size="icon" variant="ghost" onClick={() => deleteRow("canteen_opening_hours", row.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label>Day</Label>
+            <Select
+              value={newHours.day_of_week}
+              onValueChange={(value) => setNewHours({ ...newHours, day_of_week: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAYS_OF_WEEK.map((day, idx) => (
+                  <SelectItem key={day} value={idx.toString()}>
+                    {day}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="opensAt">Opens</Label>
+            <Input
+              id="opensAt"
+              type="time"
+              value={newHours.opens_at}
+              onChange={(e) => setNewHours({ ...newHours, opens_at: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closesAt">Closes</Label>
+            <Input
+              id="closesAt"
+              type="time"
+              value={newHours.closes_at}
+              onChange={(e) => setNewHours({ ...newHours, closes_at: e.target.value })}
+            />
+          </div>
+        </div>
+        <Button type="button" variant="outline" className="w-full" onClick={addHours}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Hours
+        </Button>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label>Holidays and special days</Label>
+          <p className="text-xs text-muted-foreground">
+            Leave the times empty to close for the whole day.
+          </p>
+          {exceptions.map((row) => (
+            <div key={row.id} className="flex items-center justify-between rounded-md border p-3">
+              <p className="text-sm">
+                <span className="font-medium">{format(new Date(`${row.date}T00:00:00`), "EEE, d MMM")}</span>{" "}
+                {row.opens_at && row.closes_at
+                  ? `${formatTime(row.opens_at)} – ${formatTime(row.closes_at)}`
+                  : "Closed"}
+                {row.note && <span className="text-muted-foreground"> · {row.note}</span>}
+              </p>
+              <Button size="icon" variant="ghost" onClick={() => deleteRow("canteen_exceptions", row.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="exceptionDate">Date</Label>
+            <Input
+              id="exceptionDate"
+              type="date"
+              min={format(new Date(), "yyyy-MM-dd")}
+              value={newException.date}
+              onChange={(e) => setNewException({ ...newException, date: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exceptionNote">Note</Label>
+            <Input
+              id="exceptionNote"
+              placeholder="e.g. Diwali"
+              value={newException.note}
+              onChange={(e) => setNewException({ ...newException, note: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exceptionOpens">Opens</Label>
+            <Input
+              id="exceptionOpens"
+              type="time"
+              value={newException.opens_at}
+              onChange={(e) => setNewException({ ...newException, opens_at: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exceptionCloses">Closes</Label>
+            <Input
+              id="exceptionCloses"
+              type="time"
+              value={newException.closes_at}
+              onChange={(e) => setNewException({ ...newException, closes_at: e.target.value })}
+            />
+          </div>
+        </div>
+        <Button type="button" variant="outline" className="w-full" onClick={addException}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Holiday or Special Day
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export { OpeningHoursCard };
@@ -0,0 +1,113 @@
+import { format } from "date-fns";
+import { Receipt } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { SelectedOption, formatSelectedOptions } from "@/lib/menuOptions";
+import { cn } from "@/lib/utils";
+
+export interface ReceiptOrder {
+  id: string;
+  status: string;
+  total_amount: number;
+  created_at: string;
+  pickup_code: string;
+  canteens: {
+    name: string;
+    location: string;
+  };
+  order_items: {
+    quantity: number;
+    price: number;
+    rejection_reason: string | null;
+    selected_options: SelectedOption[];
+    menu_items: {
+      name: string;
+    };
+  }[];
+}
+
+interface OrderReceiptDialogProps {
+  order: ReceiptOrder;
+}
+
+// order_items.price is the unit price charged at checkout, options included,
+// so the receipt stays correct after the menu is repriced
+const OrderReceiptDialog = ({ order }: OrderReceiptDialogProps) => {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Receipt className="h-4 w-4 mr-2" />
+          Receipt
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{order.canteens.name}</DialogTitle>
+          <DialogDescription>{order.canteens.location}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Order</span>
+            <span className="font-mono">{order.id.slice(0, 8).toUpperCase()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Pickup code</span>
+            <span className="font-mono">{order.pickup_code}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Placed</span>
+            <span>{format(new Date(order.created_at), "PPP p")}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Status</span>
+            <OrderStatusBadge status={order.status} />
+          </div>
+        </div>
+
+        <Separator />
+
+        <ul className="space-y-3 text-sm">
+          {order.order_items.map((item, idx) => (
+            <li key={idx} className={cn(item.rejection_reason && "text-muted-foreground")}>
+              <div className="flex justify-between gap-4">
+                <span className={cn(item.rejection_reason && "line-through")}>
+                  {item.quantity}x {item.menu_items.name}
+                </span>
+                <span className={cn("tabular-nums", item.rejection_reason && "line-through")}>
+                  ₹{(item.price * item.quantity).toFixed(2)}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground pl-5">
+                {item.quantity} @ ₹{item.price.toFixed(2)}
+                {item.selected_options.length > 0 && ` · ${formatSelectedOptions(item.selected_options)}`}
+              </p>
+              {item.rejection_reason && (
+                <p className="text-xs text-destructive pl-5">Removed by the canteen, not charged</p>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <Separator />
+
+        <div className="flex justify-between text-lg font-bold">
+          <span>Total</span>
+          <span className="tabular-nums">₹{order.total_amount.toFixed(2)}</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { OrderReceiptDialog };
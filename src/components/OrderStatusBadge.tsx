@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { getStatusConfig } from "@/lib/orderStatus";
+import { cn } from "@/lib/utils";
+
+interface OrderStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const OrderStatusBadge = ({ status, className }: OrderStatusBadgeProps) => {
+  const { label, icon: Icon, badgeVariant, badgeClassName } = getStatusConfig(status);
+
+  return (
+    <Badge variant={badgeVariant} className={cn(badgeClassName, className)}>
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </Badge>
+  );
+};
+
+export { OrderStatusBadge };
@@ -0,0 +1,70 @@
+import { format, differenceInMinutes } from "date-fns";
+import { History } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { getStatusConfig } from "@/lib/orderStatus";
+
+export type OrderStatusEvent = {
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  created_at: string;
+};
+
+interface OrderTimelineProps {
+  events: OrderStatusEvent[];
+  studentId?: string;
+}
+
+const formatWait = (minutes: number) => {
+  if (minutes < 1) return "under a minute";
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const OrderTimeline = ({ events, studentId }: OrderTimelineProps) => {
+  if (!events || events.length === 0) return null;
+
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  const actorLabel = (event: OrderStatusEvent) => {
+    if (!event.changed_by) return "system";
+    if (!studentId) return null;
+    return event.changed_by === studentId ? "student" : "vendor";
+  };
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <History className="h-3 w-3" />
+        Timeline
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 space-y-2 border-l pl-3">
+          {sorted.map((event, idx) => {
+            const previous = sorted[idx - 1];
+            const actor = actorLabel(event);
+            return (
+              <li key={`${event.to_status}-${event.created_at}`} className="text-xs">
+                <div className="font-medium">
+                  {event.from_status ? getStatusConfig(event.to_status).label : "Order placed"}
+                  {actor && <span className="font-normal text-muted-foreground"> by {actor}</span>}
+                </div>
+                <div className="text-muted-foreground">
+                  {format(new Date(event.created_at), "p")}
+                  {previous &&
+                    ` · after ${formatWait(
+                      differenceInMinutes(new Date(event.created_at), new Date(previous.created_at))
+                    )}`}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export { OrderTimeline };
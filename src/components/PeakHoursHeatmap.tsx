@@ -0,0 +1,61 @@
+import type { PeakHour } from "@/integrations/supabase/analytics";
+import { DAYS_OF_WEEK } from "@/lib/canteenHours";
+
+interface PeakHoursHeatmapProps {
+  peakHours: PeakHour[];
+}
+
+// Monday first, matching how the week charts are grouped
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Hours shown when there are no orders yet
+const DEFAULT_HOURS = { first: 8, last: 20 };
+
+const PeakHoursHeatmap = ({ peakHours }: PeakHoursHeatmapProps) => {
+  const counts = new Map(peakHours.map((cell) => [`${cell.day_of_week}-${cell.hour}`, cell.order_count]));
+  const max = Math.max(0, ...peakHours.map((cell) => cell.order_count));
+
+  const first = peakHours.length > 0 ? Math.min(...peakHours.map((cell) => cell.hour)) : DEFAULT_HOURS.first;
+  const last = peakHours.length > 0 ? Math.max(...peakHours.map((cell) => cell.hour)) : DEFAULT_HOURS.last;
+  const hours = Array.from({ length: last - first + 1 }, (_, idx) => first + idx);
+
+  return (
+    <div className="overflow-x-auto">
+      <div
+        className="grid gap-1 text-xs min-w-max"
+        style={{ gridTemplateColumns: `3rem repeat(${hours.length}, minmax(1.75rem, 1fr))` }}
+      >
+        <div />
+        {hours.map((hour) => (
+          <div key={hour} className="text-center text-muted-foreground">
+            {hour.toString().padStart(2, "0")}
+          </div>
+        ))}
+        {DAY_ORDER.map((day) => (
+          <div key={day} className="contents">
+            <div className="text-muted-foreground flex items-center">{DAYS_OF_WEEK[day].slice(0, 3)}</div>
+            {hours.map((hour) => {
+              const count = counts.get(`${day}-${hour}`) ?? 0;
+              return (
+                <div
+                  key={hour}
+                  className="h-7 rounded-sm bg-muted relative overflow-hidden"
+                  title={`${DAYS_OF_WEEK[day]} ${hour}:00 – ${count} orders`}
+                >
+                  {count > 0 && (
+                    <div
+                      className="absolute inset-0 bg-primary"
+                      style={{ opacity: Math.max(0.15, count / max) }}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export { PeakHoursHeatmap };
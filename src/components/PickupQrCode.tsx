@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { getPickupQr } from "@/integrations/supabase/orders";
+import { cn } from "@/lib/utils";
+
+interface PickupQrCodeProps {
+  orderId: string;
+  pickupCode: string;
+  size?: number;
+  className?: string;
+}
+
+// The signed QR for an order with the plain code underneath, so the
+// vendor can still type it in if their camera is unavailable
+const PickupQrCode = ({ orderId, pickupCode, size = 180, className }: PickupQrCodeProps) => {
+  const [payload, setPayload] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPayload(null);
+    setFailed(false);
+
+    getPickupQr(orderId)
+      .then((qr) => {
+        if (!cancelled) setPayload(qr);
+      })
+      .catch((error) => {
+        console.error("Error loading pickup QR:", error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  return (
+    <div className={cn("flex flex-col items-center gap-2", className)}>
+      {payload && (
+        <div className="rounded-lg bg-white p-3">
+          <QRCodeSVG value={payload} size={size} level="M" />
+        </div>
+      )}
+      {!payload && !failed && (
+        <div className="rounded-lg bg-muted animate-pulse" style={{ width: size + 24, height: size + 24 }} />
+      )}
+      <p className="text-2xl font-bold font-mono tracking-wider text-primary">{pickupCode}</p>
+    </div>
+  );
+};
+
+export { PickupQrCode };
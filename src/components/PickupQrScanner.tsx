@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { CheckCircle2, ScanLine, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Order, completePickupQr, verifyPickupQr } from "@/integrations/supabase/orders";
+
+interface PickupQrScannerProps {
+  canteenId: string;
+  // Looks up the customer's name in the orders the dashboard already has
+  customerName?: (orderId: string) => string | undefined;
+  onCompleted?: () => void;
+}
+
+type ScanState =
+  | { step: "scanning" }
+  | { step: "checking" }
+  | { step: "verified"; order: Order; payload: string }
+  | { step: "error"; message: string };
+
+// Frames are decoded on a timer rather than every animation frame to
+// keep older counter tablets responsive
+const SCAN_INTERVAL_MS = 250;
+
+const PickupQrScanner = ({ canteenId, customerName, onCompleted }: PickupQrScannerProps) => {
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState<ScanState>({ step: "scanning" });
+  const [completing, setCompleting] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!open || state.step !== "scanning") return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      if (!video || !context || video.readyState < video.HAVE_ENOUGH_DATA) return;
+
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+
+      if (code?.data) {
+        window.clearInterval(timer);
+        verify(code.data);
+      }
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (stopped) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        // The dialog may have closed while the camera was starting
+        if (stopped) return;
+        timer = window.setInterval(scanFrame, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error("Error starting camera:", error);
+        setState({
+          step: "error",
+          message: "Could not open the camera. Allow camera access or search by pickup code instead.",
+        });
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open, state.step]);
+
+  const verify = async (payload: string) => {
+    setState({ step: "checking" });
+    try {
+      const order = await verifyPickupQr(canteenId, payload);
+      setState({ step: "verified", order, payload });
+    } catch (error) {
+      setState({
+        step: "error",
+        message: error instanceof Error ? error.message : "Failed to verify the QR code",
+      });
+    }
+  };
+
+  const handOver = async () => {
+    if (state.step !== "verified") return;
+
+    setCompleting(true);
+    try {
+      const order = await completePickupQr(canteenId, state.payload);
+      toast.success(`Order #${order.pickup_code} handed over`);
+      onCompleted?.();
+      setState({ step: "scanning" });
+    } catch (error) {
+      setState({
+        step: "error",
+        message: error instanceof Error ? error.message : "Failed to complete the order",
+      });
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        setState({ step: "scanning" });
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ScanLine className="h-4 w-4 mr-2" />
+          Scan QR
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan pickup QR</DialogTitle>
+          <DialogDescription>Point the camera at the student's pickup QR code</DialogDescription>
+        </DialogHeader>
+
+        {(state.step === "scanning" || state.step === "checking") && (
+          <div className="relative aspect-square overflow-hidden rounded-lg bg-black">
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+            {state.step === "checking" && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/60 text-white">
+                Checking...
+              </div>
+            )}
+          </div>
+        )}
+
+        {state.step === "verified" && (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center gap-2 rounded-lg border border-success/50 bg-success/10 p-6 text-center">
+              <CheckCircle2 className="h-10 w-10 text-success" />
+              <p className="text-3xl font-bold font-mono">#{state.order.pickup_code}</p>
+              {customerName?.(state.order.id) && (
+                <p className="text-lg font-medium">{customerName(state.order.id)}</p>
+              )}
+              <p className="text-sm text-muted-foreground">₹{state.order.total_amount.toFixed(2)}</p>
+            </div>
+            <Button className="w-full" size="lg" onClick={handOver} disabled={completing}>
+              {completing ? "Completing..." : "Hand Over & Complete"}
+            </Button>
+            <Button variant="outline" className="w-full" onClick={() => setState({ step: "scanning" })}>
+              Scan Another
+            </Button>
+          </div>
+        )}
+
+        {state.step === "error" && (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-6 text-center">
+              <XCircle className="h-10 w-10 text-destructive" />
+              <p className="font-medium">{state.message}</p>
+            </div>
+            <Button className="w-full" onClick={() => setState({ step: "scanning" })}>
+              Scan Again
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { PickupQrScanner };
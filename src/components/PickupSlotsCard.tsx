@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { formatTime } from "@/lib/canteenHours";
+
+type PickupSlot = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  is_active: boolean;
+};
+
+interface PickupSlotsCardProps {
+  canteenId: string;
+}
+
+const emptySlot = { start_time: "", end_time: "", capacity: "10" };
+
+const PickupSlotsCard = ({ canteenId }: PickupSlotsCardProps) => {
+  const [slots, setSlots] = useState<PickupSlot[]>([]);
+  const [newSlot, setNewSlot] = useState(emptySlot);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [canteenId]);
+
+  const fetchSlots = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("pickup_slots")
+        .select("*")
+        .eq("canteen_id", canteenId)
+        .order("start_time");
+
+      if (error) throw error;
+      setSlots(data || []);
+    } catch (error) {
+      console.error("Error fetching pickup slots:", error);
+      toast.error("Failed to load pickup slots");
+    }
+  };
+
+  const addSlot = async () => {
+    if (!newSlot.start_time || !newSlot.end_time || !newSlot.capacity) {
+      toast.error("Please fill in the start time, end time and capacity");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("pickup_slots").insert({
+        canteen_id: canteenId,
+        start_time: newSlot.start_time,
+        end_time: newSlot.end_time,
+        capacity: parseInt(newSlot.capacity, 10),
+      });
+
+      if (error) throw error;
+      toast.success("Pickup slot added!");
+      setNewSlot(emptySlot);
+      fetchSlots();
+    } catch (error) {
+      console.error("Error adding pickup slot:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add pickup slot");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSlot = async (slot: PickupSlot, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("pickup_slots")
+        .update({ is_active: isActive })
+        .eq("id", slot.id);
+
+      if (error) throw error;
+      fetchSlots();
+    } catch (error) {
+      console.error("Error updating pickup slot:", error);
+      toast.error("Failed to update pickup slot");
+    }
+  };
+
+  const deleteSlot = async (slotId: string) => {
+    try {
+      const { error } = await supabase
+        .from("pickup_slots")
+        .delete()
+        .eq("id", slotId);
+
+      if (error) throw error;
+      toast.success("Pickup slot deleted!");
+      fetchSlots();
+    } catch (error) {
+      console.error("Error deleting pickup slot:", error);
+      toast.error("Failed to delete pickup slot");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pickup Slots</CardTitle>
+        <CardDescription>
+          Daily time windows students can pre-order for, and how many orders each can take
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No pickup slots yet. Students can only order for pickup as soon as possible.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {slots.map((slot) => (
+              <div key={slot.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium">
+                    {formatTime(slot.start_time)} – {formatTime(slot.end_time)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">Up to {slot.capacity} orders</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={slot.is_active}
+                    onCheckedChange={(checked) => toggleSlot(slot, checked)}
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => deleteSlot(slot.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="slotStart">Start</Label>
+            <Input
+              id="slotStart"
+              type="time"
+              value={newSlot.start_time}
+              onChange={(e) => setNewSlot({ ...newSlot, start_time: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slotEnd">End</Label>
+            <Input
+              id="slotEnd"
+              type="time"
+              value={newSlot.end_time}
+              onChange={(e) => setNewSlot({ ...newSlot, end_time: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slotCapacity">Capacity</Label>
+            <Input
+              id="slotCapacity"
+              type="number"
+              min="1"
+              value={newSlot.capacity}
+              onChange={(e) => setNewSlot({ ...newSlot, capacity: e.target.value })}
+            />
+          </div>
+        </div>
+        <Button type="button" variant="outline" className="w-full" onClick={addSlot} disabled={saving}>
+          <Plus className="h-4 w-4 mr-2" />
+          {saving ? "Adding..." : "Add Slot"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export { PickupSlotsCard };
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { differenceInMinutes, format } from "date-fns";
+import { Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ReadyCountdownProps {
+  readyAt: string;
+  className?: string;
+}
+
+const ReadyCountdown = ({ readyAt, className }: ReadyCountdownProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const minutesLeft = differenceInMinutes(new Date(readyAt), now, { roundingMethod: "ceil" });
+
+  return (
+    <p className={cn("flex items-center justify-center gap-1 text-sm", className)}>
+      <Timer className="h-4 w-4" />
+      {minutesLeft > 0
+        ? `Ready in about ${minutesLeft} min (${format(new Date(readyAt), "p")})`
+        : "Should be ready any moment"}
+    </p>
+  );
+};
+
+export { ReadyCountdown };
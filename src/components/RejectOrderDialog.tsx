@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Ban } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { rejectOrder, rejectOrderItems } from "@/integrations/supabase/orders";
+import { REJECTION_REASONS, REJECTION_REASON_LABELS, RejectionReason } from "@/lib/orderStatus";
+
+interface RejectOrderDialogProps {
+  orderId: string;
+  pickupCode: string | null;
+  items: { id: string; quantity: number; name: string }[];
+  onRejected?: () => void;
+}
+
+const RejectOrderDialog = ({ orderId, pickupCode, items, onRejected }: RejectOrderDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<"order" | "items">("order");
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [reason, setReason] = useState<RejectionReason>("out_of_stock");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const reset = () => {
+    setScope("order");
+    setSelectedItemIds([]);
+    setReason("out_of_stock");
+    setNote("");
+  };
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    setSelectedItemIds((prev) =>
+      checked ? [...prev, itemId] : prev.filter((id) => id !== itemId)
+    );
+  };
+
+  const canSubmit =
+    !submitting &&
+    (scope === "order" || selectedItemIds.length > 0) &&
+    (reason !== "other" || note.trim().length > 0);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      if (scope === "order") {
+        await rejectOrder(orderId, reason, note.trim());
+        toast.success("Order rejected");
+      } else {
+        await rejectOrderItems(orderId, selectedItemIds, reason, note.trim());
+        toast.success("Items rejected");
+      }
+      setOpen(false);
+      reset();
+      onRejected?.();
+    } catch (error) {
+      console.error("Error rejecting order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reject order");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <Ban className="h-4 w-4 mr-2" />
+          Reject
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reject order #{pickupCode}</DialogTitle>
+          <DialogDescription>
+            The student will be notified with the reason you choose.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as "order" | "items")}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="order" id={`${orderId}-scope-order`} />
+              <Label htmlFor={`${orderId}-scope-order`}>Reject the whole order</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="items" id={`${orderId}-scope-items`} />
+              <Label htmlFor={`${orderId}-scope-items`}>Reject selected items only</Label>
+            </div>
+          </RadioGroup>
+
+          {scope === "items" && (
+            <div className="space-y-2 rounded-md border p-3">
+              {items.map((item) => (
+                <div key={item.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`${orderId}-item-${item.id}`}
+                    checked={selectedItemIds.includes(item.id)}
+                    onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                  />
+                  <Label htmlFor={`${orderId}-item-${item.id}`} className="font-normal">
+                    {item.quantity}x {item.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <RadioGroup value={reason} onValueChange={(value) => setReason(value as RejectionReason)}>
+              {REJECTION_REASONS.map((value) => (
+                <div key={value} className="flex items-center gap-2">
+                  <RadioGroupItem value={value} id={`${orderId}-reason-${value}`} />
+                  <Label htmlFor={`${orderId}-reason-${value}`} className="font-normal">
+                    {REJECTION_REASON_LABELS[value]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${orderId}-note`}>
+              Note {reason === "other" ? "(required)" : "(optional)"}
+            </Label>
+            <Textarea
+              id={`${orderId}-note`}
+              value={note}
+              maxLength={200}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!canSubmit}>
+            {submitting ? "Rejecting..." : scope === "order" ? "Reject Order" : "Reject Items"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { RejectOrderDialog };
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+
+// Keeps the screen on while mounted, where the browser supports it.
+// Browsers drop the lock whenever the tab is hidden, so it is taken
+// again when the page becomes visible.
+export const useWakeLock = (enabled = true) => {
+  useEffect(() => {
+    if (!enabled || !("wakeLock" in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request("screen");
+      } catch (error) {
+        console.error("Error keeping the screen awake:", error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible" && !released) request();
+    };
+
+    request();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      sentinel?.release();
+    };
+  }, [enabled]);
+};
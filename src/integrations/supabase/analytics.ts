@@ -0,0 +1,91 @@
+import { supabase } from "./client";
+
+// Typed wrappers around the sales analytics RPCs defined in
+// supabase/migrations. Ranges are [from, to) and all grouping happens in
+// the canteen's time zone.
+
+export type SalesRange = { from: Date; to: Date };
+
+export type SalesSummary = {
+  order_count: number;
+  revenue: number;
+  average_order_value: number;
+  lost_order_count: number;
+};
+
+export type SalesPeriod = "day" | "week";
+
+export type SalesByPeriod = {
+  period_start: string;
+  order_count: number;
+  revenue: number;
+};
+
+export type TopItem = {
+  menu_item_id: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  order_count: number;
+  views: number;
+};
+
+export type PeakHour = {
+  day_of_week: number;
+  hour: number;
+  order_count: number;
+};
+
+const rangeArgs = (canteenId: string, range: SalesRange) => ({
+  _canteen_id: canteenId,
+  _from: range.from.toISOString(),
+  _to: range.to.toISOString(),
+});
+
+export const getSalesSummary = async (canteenId: string, range: SalesRange): Promise<SalesSummary> => {
+  const { data, error } = await supabase.rpc("get_sales_summary", rangeArgs(canteenId, range));
+
+  if (error) throw error;
+  return (data as SalesSummary[])[0];
+};
+
+export const getSalesByPeriod = async (
+  canteenId: string,
+  range: SalesRange,
+  period: SalesPeriod
+): Promise<SalesByPeriod[]> => {
+  const { data, error } = await supabase.rpc("get_sales_by_period", {
+    ...rangeArgs(canteenId, range),
+    _period: period,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as SalesByPeriod[];
+};
+
+export const getTopItems = async (canteenId: string, range: SalesRange, limit = 10): Promise<TopItem[]> => {
+  const { data, error } = await supabase.rpc("get_top_items", {
+    ...rangeArgs(canteenId, range),
+    _limit: limit,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as TopItem[];
+};
+
+export const getPeakHours = async (canteenId: string, range: SalesRange): Promise<PeakHour[]> => {
+  const { data, error } = await supabase.rpc("get_peak_hours", rangeArgs(canteenId, range));
+
+  if (error) throw error;
+  return (data ?? []) as PeakHour[];
+};
+
+// Counts menu impressions for the conversion column; failures only log
+export const recordMenuViews = async (canteenId: string, menuItemIds: string[]) => {
+  const { error } = await supabase.rpc("record_menu_views", {
+    _canteen_id: canteenId,
+    _menu_item_ids: menuItemIds,
+  });
+
+  if (error) console.error("Error recording menu views:", error);
+};
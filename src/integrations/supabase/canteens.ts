@@ -0,0 +1,40 @@
+import { supabase } from "./client";
+
+// Typed wrappers around the canteen RPCs defined in supabase/migrations.
+
+export type CanteenStatus = {
+  canteen_id: string;
+  is_open: boolean;
+  ordering_paused: boolean;
+  closes_at: string | null;
+  next_opens_at: string | null;
+};
+
+export const getCanteenStatuses = async (): Promise<Map<string, CanteenStatus>> => {
+  const { data, error } = await supabase.rpc("get_canteen_statuses");
+
+  if (error) throw error;
+  return new Map(((data ?? []) as CanteenStatus[]).map((status) => [status.canteen_id, status]));
+};
+
+export const getCanteenStatus = async (canteenId: string): Promise<CanteenStatus | null> => {
+  const { data, error } = await supabase.rpc("get_canteen_statuses", { _canteen_id: canteenId });
+
+  if (error) throw error;
+  return ((data ?? []) as CanteenStatus[])[0] ?? null;
+};
+
+// ASAP queue of a canteen; wait_minutes is only set while it is at capacity
+export type KitchenLoad = {
+  queue_length: number;
+  recent_orders: number;
+  at_capacity: boolean;
+  wait_minutes: number;
+};
+
+export const getKitchenLoad = async (canteenId: string): Promise<KitchenLoad | null> => {
+  const { data, error } = await supabase.rpc("get_kitchen_load", { _canteen_id: canteenId });
+
+  if (error) throw error;
+  return ((data ?? []) as KitchenLoad[])[0] ?? null;
+};
@@ -0,0 +1,44 @@
+import { supabase } from "./client";
+
+// Typed wrappers for the public pickup board defined in
+// supabase/migrations. The board is not logged in; it authenticates
+// with a display token created by the vendor.
+
+export type DisplayBoardOrder = {
+  pickup_code: string;
+  status: string;
+  // When the order became ready; null while it is still being prepared
+  ready_at: string | null;
+};
+
+// Raised when the token is unknown or was revoked, so the board can stop
+// refreshing and ask for a new link
+export class InvalidDisplayTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidDisplayTokenError";
+  }
+}
+
+export const getDisplayBoard = async (canteenId: string, token: string): Promise<DisplayBoardOrder[]> => {
+  const { data, error } = await supabase.rpc("get_display_board", {
+    _canteen_id: canteenId,
+    _token: token,
+  });
+
+  if (error?.hint === "invalid_display_token") throw new InvalidDisplayTokenError(error.message);
+  if (error) throw error;
+  return (data ?? []) as DisplayBoardOrder[];
+};
+
+export const revokeDisplayToken = async (tokenId: string) => {
+  const { error } = await supabase.rpc("revoke_display_token", { _id: tokenId });
+
+  if (error) throw error;
+};
+
+// Realtime topic the database broadcasts this token's updates on
+export const displayTopic = (token: string) => `display:${token}`;
+
+export const displayUrl = (canteenId: string, token: string) =>
+  `${window.location.origin}/display/${canteenId}?token=${token}`;
@@ -0,0 +1,49 @@
+import { supabase } from "./client";
+
+// Typed wrappers around the menu RPCs defined in supabase/migrations.
+
+export const reorderMenuCategories = async (categoryIds: string[]) => {
+  const { error } = await supabase.rpc("reorder_menu_categories", { _category_ids: categoryIds });
+
+  if (error) throw error;
+};
+
+// Also moves any of the items into the category; null means uncategorised
+export const reorderMenuItems = async (categoryId: string | null, itemIds: string[]) => {
+  const { error } = await supabase.rpc("reorder_menu_items", {
+    _category_id: categoryId,
+    _item_ids: itemIds,
+  });
+
+  if (error) throw error;
+};
+
+// Optional fields left out keep their current value on updated items
+export type MenuImportItem = {
+  name: string;
+  description?: string | null;
+  price: number;
+  // Category name; created if the canteen does not have it yet
+  category?: string | null;
+  is_available?: boolean;
+  daily_stock?: number | null;
+};
+
+export type MenuImportResult = {
+  inserted: number;
+  updated: number;
+};
+
+// Items are matched to the existing menu by name, ignoring case
+export const importMenuItems = async (
+  canteenId: string,
+  items: MenuImportItem[]
+): Promise<MenuImportResult> => {
+  const { data, error } = await supabase.rpc("import_menu_items", {
+    _canteen_id: canteenId,
+    _items: items,
+  });
+
+  if (error) throw error;
+  return data as MenuImportResult;
+};
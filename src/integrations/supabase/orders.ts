@@ -0,0 +1,219 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "./client";
+import type { Tables } from "./types";
+import type { RejectionReason } from "@/lib/orderStatus";
+
+// Typed wrappers around the order RPCs defined in supabase/migrations.
+// The SQL functions raise errors with a machine-readable code in HINT,
+// which is surfaced here as OrderError.code.
+
+export type Order = Tables<"orders">;
+
+export type OrderErrorCode =
+  | "not_student"
+  | "empty_cart"
+  | "invalid_quantity"
+  | "canteen_not_found"
+  | "cart_changed"
+  | "order_not_found"
+  | "not_cancellable"
+  | "cancel_window_expired"
+  | "invalid_reason"
+  | "note_required"
+  | "not_rejectable"
+  | "no_items_selected"
+  | "slot_not_found"
+  | "slot_passed"
+  | "slot_full"
+  | "canteen_closed"
+  | "ordering_paused"
+  | "kitchen_busy"
+  | "notes_too_long"
+  | "invalid_qr"
+  | "invalid_signature"
+  | "wrong_canteen"
+  | "already_collected"
+  | "not_ready"
+  | "code_required"
+  | "invalid_code"
+  | "too_many_attempts"
+  | "no_show_blocked"
+  | "payment_required"
+  | "unknown";
+
+export type CartChangeReason =
+  | "not_found"
+  | "wrong_canteen"
+  | "unavailable"
+  | "options_changed"
+  | "low_stock"
+  | "price_changed";
+
+// One cart line that no longer matches the menu, as returned by check_cart
+export type CartChange = {
+  menu_item_id: string;
+  option_ids: string[];
+  name: string | null;
+  reason: CartChangeReason;
+  expected_price: number | null;
+  current_price: number | null;
+  // Stock left for low_stock changes; null when the item is not tracked
+  available: number | null;
+};
+
+export class OrderError extends Error {
+  code: OrderErrorCode;
+  changes: CartChange[];
+
+  constructor(code: OrderErrorCode, message: string, changes: CartChange[] = []) {
+    super(message);
+    this.name = "OrderError";
+    this.code = code;
+    this.changes = changes;
+  }
+}
+
+const toOrderError = (error: PostgrestError) => {
+  const code = (error.hint || "unknown") as OrderErrorCode;
+  if (code !== "cart_changed") return new OrderError(code, error.message);
+
+  let changes: CartChange[] = [];
+  try {
+    changes = JSON.parse(error.details);
+  } catch {
+    // Keep the generic message if the diff is missing or malformed
+  }
+  return new OrderError(code, error.message, changes);
+};
+
+export type PlaceOrderItem = {
+  menu_item_id: string;
+  quantity: number;
+  // The unit price the student was shown; the server rejects the order
+  // with a cart_changed error if it no longer matches
+  price: number;
+  // Options picked in the customization sheet, if the item has any
+  option_ids?: string[];
+};
+
+// Matches the CHECK on orders.notes
+export const ORDER_NOTES_MAX_LENGTH = 200;
+
+// pickupSlotId is optional; without it the order is for pickup as soon
+// as possible
+export const placeOrder = async (
+  canteenId: string,
+  items: PlaceOrderItem[],
+  pickupSlotId?: string | null,
+  notes?: string
+): Promise<Order> => {
+  const { data, error } = await supabase.rpc("place_order", {
+    _canteen_id: canteenId,
+    _items: items,
+    _pickup_slot_id: pickupSlotId ?? null,
+    _notes: notes?.trim() || null,
+  });
+
+  if (error) throw toOrderError(error);
+  return data as Order;
+};
+
+export type PickupSlotAvailability = {
+  slot_id: string;
+  pickup_at: string;
+  end_at: string;
+  capacity: number;
+  booked: number;
+};
+
+export const getPickupSlots = async (canteenId: string): Promise<PickupSlotAvailability[]> => {
+  const { data, error } = await supabase.rpc("get_pickup_slots", { _canteen_id: canteenId });
+
+  if (error) throw toOrderError(error);
+  return (data ?? []) as PickupSlotAvailability[];
+};
+
+export const cancelOrder = async (orderId: string): Promise<Order> => {
+  const { data, error } = await supabase.rpc("cancel_order", { _order_id: orderId });
+
+  if (error) throw toOrderError(error);
+  return data as Order;
+};
+
+export const rejectOrder = async (
+  orderId: string,
+  reason: RejectionReason,
+  note?: string
+): Promise<Order> => {
+  const { data, error } = await supabase.rpc("reject_order", {
+    _order_id: orderId,
+    _reason: reason,
+    _note: note || null,
+  });
+
+  if (error) throw toOrderError(error);
+  return data as Order;
+};
+
+export const rejectOrderItems = async (
+  orderId: string,
+  orderItemIds: string[],
+  reason: RejectionReason,
+  note?: string
+): Promise<Order> => {
+  const { data, error } = await supabase.rpc("reject_order_items", {
+    _order_id: orderId,
+    _order_item_ids: orderItemIds,
+    _reason: reason,
+    _note: note || null,
+  });
+
+  if (error) throw toOrderError(error);
+  return data as Order;
+};
+
+// Signed payload for the pickup QR of one of the student's own orders
+export const getPickupQr = async (orderId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("get_pickup_qr", { _order_id: orderId });
+
+  if (error) throw toOrderError(error);
+  return data;
+};
+
+// Checks a scanned pickup QR against the vendor's canteen without
+// changing the order
+export const verifyPickupQr = async (canteenId: string, payload: string): Promise<Order> => {
+  const { data, error } = await supabase.rpc("verify_pickup_qr", {
+    _canteen_id: canteenId,
+    _payload: payload,
+  });
+
+  if (error) throw toOrderError(error);
+  return data as Order;
+};
+
+export const completePickupQr = async (canteenId: string, payload: string): Promise<Order> => {
+  const { data, error } = await supabase.rpc("complete_pickup_qr", {
+    _canteen_id: canteenId,
+    _payload: payload,
+  });
+
+  if (error) throw toOrderError(error);
+  return data as Order;
+};
+
+// Hands over the ready order with this pickup code at the vendor's canteen.
+// The RPC returns no order for an unknown code so the failed attempt still
+// counts towards the counter's lockout
+export const completeOrderByCode = async (canteenId: string, code: string): Promise<Order> => {
+  const { data, error } = await supabase.rpc("complete_order_by_code", {
+    _canteen_id: canteenId,
+    _code: code,
+  });
+
+  if (error) throw toOrderError(error);
+  if (!data?.id) {
+    throw new OrderError("invalid_code", "No order with that code is waiting at this canteen");
+  }
+  return data as Order;
+};
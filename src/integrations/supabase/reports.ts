@@ -0,0 +1,48 @@
+import { supabase } from "./client";
+
+// Typed wrappers around the settlement report RPCs defined in
+// supabase/migrations. Dates are local "yyyy-MM-dd" dates in the
+// canteen's time zone and both ends are inclusive.
+
+export type SettlementStatusRow = {
+  status: string;
+  order_count: number;
+  amount: number;
+};
+
+export type SettlementItemRow = {
+  menu_item_id: string;
+  name: string;
+  quantity: number;
+  amount: number;
+};
+
+export const getSettlementByStatus = async (
+  canteenId: string,
+  from: string,
+  to: string
+): Promise<SettlementStatusRow[]> => {
+  const { data, error } = await supabase.rpc("get_settlement_by_status", {
+    _canteen_id: canteenId,
+    _from: from,
+    _to: to,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as SettlementStatusRow[];
+};
+
+export const getSettlementItems = async (
+  canteenId: string,
+  from: string,
+  to: string
+): Promise<SettlementItemRow[]> => {
+  const { data, error } = await supabase.rpc("get_settlement_items", {
+    _canteen_id: canteenId,
+    _from: from,
+    _to: to,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as SettlementItemRow[];
+};
@@ -0,0 +1,44 @@
+import { supabase } from "./client";
+import { resizeImage } from "@/lib/imageResize";
+
+// Helpers for the menu-images bucket defined in supabase/migrations.
+// Objects are stored under <canteen_id>/ so the bucket policies can
+// check that the uploader owns the canteen.
+
+const BUCKET = "menu-images";
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+export const uploadMenuImage = async (canteenId: string, file: File): Promise<string> => {
+  if (!file.type.startsWith("image/")) throw new Error("Please choose an image file");
+  if (file.size > MAX_UPLOAD_BYTES) throw new Error("Images can be at most 10 MB");
+
+  const blob = await resizeImage(file);
+  const extension = EXTENSIONS[blob.type] ?? blob.type.replace("image/", "");
+  const path = `${canteenId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, blob, { contentType: blob.type, cacheControl: "31536000" });
+
+  if (error) throw error;
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Best effort: a leftover object only costs storage, so failures are logged
+export const removeMenuImage = async (publicUrl: string) => {
+  const marker = `/${BUCKET}/`;
+  const index = publicUrl.indexOf(marker);
+  if (index === -1) return;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .remove([publicUrl.slice(index + marker.length)]);
+
+  if (error) console.error("Error removing image:", error);
+};
@@ -14,63 +14,312 @@ export type Database = {
   }
   public: {
     Tables: {
+      canteen_exceptions: {
+        Row: {
+          canteen_id: string
+          closes_at: string | null
+          created_at: string
+          date: string
+          id: string
+          note: string | null
+          opens_at: string | null
+        }
+        Insert: {
+          canteen_id: string
+          closes_at?: string | null
+          created_at?: string
+          date: string
+          id?: string
+          note?: string | null
+          opens_at?: string | null
+        }
+        Update: {
+          canteen_id?: string
+          closes_at?: string | null
+          created_at?: string
+          date?: string
+          id?: string
+          note?: string | null
+          opens_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "canteen_exceptions_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      canteen_opening_hours: {
+        Row: {
+          canteen_id: string
+          closes_at: string
+          created_at: string
+          day_of_week: number
+          id: string
+          opens_at: string
+        }
+        Insert: {
+          canteen_id: string
+          closes_at: string
+          created_at?: string
+          day_of_week: number
+          id?: string
+          opens_at: string
+        }
+        Update: {
+          canteen_id?: string
+          closes_at?: string
+          created_at?: string
+          day_of_week?: number
+          id?: string
+          opens_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "canteen_opening_hours_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       canteens: {
         Row: {
+          cancellation_window_minutes: number | null
           created_at: string
           id: string
           image_url: string | null
           location: string
+          max_active_orders: number | null
+          max_orders_per_10_minutes: number | null
           name: string
+          no_show_action: string
+          no_show_grace_minutes: number | null
+          no_show_threshold: number | null
+          ordering_paused: boolean
+          timezone: string
           vendor_id: string
         }
         Insert: {
+          cancellation_window_minutes?: number | null
           created_at?: string
           id?: string
           image_url?: string | null
           location: string
+          max_active_orders?: number | null
+          max_orders_per_10_minutes?: number | null
           name: string
+          no_show_action?: string
+          no_show_grace_minutes?: number | null
+          no_show_threshold?: number | null
+          ordering_paused?: boolean
+          timezone?: string
           vendor_id: string
         }
         Update: {
+          cancellation_window_minutes?: number | null
           created_at?: string
           id?: string
           image_url?: string | null
           location?: string
+          max_active_orders?: number | null
+          max_orders_per_10_minutes?: number | null
           name?: string
+          no_show_action?: string
+          no_show_grace_minutes?: number | null
+          no_show_threshold?: number | null
+          ordering_paused?: boolean
+          timezone?: string
           vendor_id?: string
         }
         Relationships: []
       }
+      display_tokens: {
+        Row: {
+          canteen_id: string
+          created_at: string
+          id: string
+          label: string
+          last_seen_at: string | null
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          canteen_id: string
+          created_at?: string
+          id?: string
+          label: string
+          last_seen_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          canteen_id?: string
+          created_at?: string
+          id?: string
+          label?: string
+          last_seen_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "display_tokens_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_categories: {
+        Row: {
+          canteen_id: string
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          canteen_id: string
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          canteen_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_categories_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_schedules: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          ends_at: string
+          id: string
+          menu_item_id: string
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          ends_at: string
+          id?: string
+          menu_item_id: string
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          ends_at?: string
+          id?: string
+          menu_item_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_schedules_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_views: {
+        Row: {
+          menu_item_id: string
+          viewed_on: string
+          views: number
+        }
+        Insert: {
+          menu_item_id: string
+          viewed_on: string
+          views?: number
+        }
+        Update: {
+          menu_item_id?: string
+          viewed_on?: string
+          views?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_views_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
+          available_from: string | null
           canteen_id: string
+          category_id: string | null
           created_at: string
+          daily_stock: number | null
           description: string | null
           id: string
           image_url: string | null
+          in_schedule: boolean
           is_available: boolean
           name: string
           price: number
+          sort_order: number
+          stock_remaining: number | null
+          stock_reset_on: string
         }
         Insert: {
+          available_from?: string | null
           canteen_id: string
+          category_id?: string | null
           created_at?: string
+          daily_stock?: number | null
           description?: string | null
           id?: string
           image_url?: string | null
+          in_schedule?: boolean
           is_available?: boolean
           name: string
           price: number
+          sort_order?: number
+          stock_remaining?: number | null
+          stock_reset_on?: string
         }
         Update: {
+          available_from?: string | null
           canteen_id?: string
+          category_id?: string | null
           created_at?: string
+          daily_stock?: number | null
           description?: string | null
           id?: string
           image_url?: string | null
+          in_schedule?: boolean
           is_available?: boolean
           name?: string
           price?: number
+          sort_order?: number
+          stock_remaining?: number | null
+          stock_reset_on?: string
         }
         Relationships: [
           {
@@ -80,6 +329,89 @@ export type Database = {
             referencedRelation: "canteens"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "menu_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_option_groups: {
+        Row: {
+          created_at: string
+          id: string
+          max_select: number | null
+          menu_item_id: string
+          min_select: number
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_select?: number | null
+          menu_item_id: string
+          min_select?: number
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_select?: number | null
+          menu_item_id?: string
+          min_select?: number
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_option_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_options: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          is_available: boolean
+          name: string
+          price_delta: number
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "menu_option_groups"
+            referencedColumns: ["id"]
+          },
         ]
       }
       order_items: {
@@ -89,6 +421,9 @@ export type Database = {
           order_id: string
           price: number
           quantity: number
+          rejection_note: string | null
+          rejection_reason: string | null
+          selected_options: Json
         }
         Insert: {
           id?: string
@@ -96,6 +431,9 @@ export type Database = {
           order_id: string
           price: number
           quantity?: number
+          rejection_note?: string | null
+          rejection_reason?: string | null
+          selected_options?: Json
         }
         Update: {
           id?: string
@@ -103,6 +441,9 @@ export type Database = {
           order_id?: string
           price?: number
           quantity?: number
+          rejection_note?: string | null
+          rejection_reason?: string | null
+          selected_options?: Json
         }
         Relationships: [
           {
@@ -121,12 +462,58 @@ export type Database = {
           },
         ]
       }
+      order_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
           canteen_id: string
           created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
           id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
           pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
           status: string
           student_id: string
           total_amount: number
@@ -134,8 +521,19 @@ export type Database = {
         Insert: {
           canteen_id: string
           created_at?: string
+          estimated_prep_minutes?: number | null
+          estimated_ready_at?: string | null
+          handed_over_at?: string | null
+          handed_over_by?: string | null
           id?: string
+          notes?: string | null
+          paid_at?: string | null
+          pickup_at?: string | null
           pickup_code?: string | null
+          pickup_slot_id?: string | null
+          prepayment_required?: boolean
+          rejection_note?: string | null
+          rejection_reason?: string | null
           status?: string
           student_id: string
           total_amount: number
@@ -143,8 +541,19 @@ export type Database = {
         Update: {
           canteen_id?: string
           created_at?: string
+          estimated_prep_minutes?: number | null
+          estimated_ready_at?: string | null
+          handed_over_at?: string | null
+          handed_over_by?: string | null
           id?: string
+          notes?: string | null
+          paid_at?: string | null
+          pickup_at?: string | null
           pickup_code?: string | null
+          pickup_slot_id?: string | null
+          prepayment_required?: boolean
+          rejection_note?: string | null
+          rejection_reason?: string | null
           status?: string
           student_id?: string
           total_amount?: number
@@ -157,6 +566,101 @@ export type Database = {
             referencedRelation: "canteens"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_pickup_slot_id_fkey"
+            columns: ["pickup_slot_id"]
+            isOneToOne: false
+            referencedRelation: "pickup_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pickup_code_attempts: {
+        Row: {
+          attempted_by: string | null
+          canteen_id: string
+          code: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          attempted_by?: string | null
+          canteen_id: string
+          code: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          attempted_by?: string | null
+          canteen_id?: string
+          code?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pickup_code_attempts_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pickup_qr_keys: {
+        Row: {
+          created_at: string
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      pickup_slots: {
+        Row: {
+          canteen_id: string
+          capacity: number
+          created_at: string
+          end_time: string
+          id: string
+          is_active: boolean
+          start_time: string
+        }
+        Insert: {
+          canteen_id: string
+          capacity: number
+          created_at?: string
+          end_time: string
+          id?: string
+          is_active?: boolean
+          start_time: string
+        }
+        Update: {
+          canteen_id?: string
+          capacity?: number
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pickup_slots_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -180,6 +684,35 @@ export type Database = {
         }
         Relationships: []
       }
+      student_no_shows: {
+        Row: {
+          canteen_id: string
+          last_no_show_at: string | null
+          no_show_count: number
+          student_id: string
+        }
+        Insert: {
+          canteen_id: string
+          last_no_show_at?: string | null
+          no_show_count?: number
+          student_id: string
+        }
+        Update: {
+          canteen_id?: string
+          last_no_show_at?: string | null
+          no_show_count?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_no_shows_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -203,10 +736,235 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      canteen_sales: {
+        Row: {
+          canteen_id: string | null
+          created_at: string | null
+          local_created_at: string | null
+          order_id: string | null
+          total_amount: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_canteen_id_fkey"
+            columns: ["canteen_id"]
+            isOneToOne: false
+            referencedRelation: "canteens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      generate_pickup_code: { Args: never; Returns: string }
+      cancel_order: {
+        Args: { _order_id: string }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      canteen_hours_on: {
+        Args: { _canteen_id: string; _date: string }
+        Returns: {
+          closes_at: string
+          opens_at: string
+        }[]
+      }
+      canteen_prep_minutes: { Args: { _canteen_id: string }; Returns: number }
+      canteen_service_minutes: {
+        Args: { _canteen_id: string }
+        Returns: number
+      }
+      canteen_windows: {
+        Args: { _canteen_id: string; _days?: number }
+        Returns: {
+          closes_at: string
+          opens_at: string
+        }[]
+      }
+      check_cart: { Args: { _canteen_id: string; _items: Json }; Returns: Json }
+      complete_order_by_code: {
+        Args: { _canteen_id: string; _code: string }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      complete_pickup_qr: {
+        Args: { _canteen_id: string; _payload: string }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      generate_pickup_code: { Args: { _canteen_id: string }; Returns: string }
+      get_canteen_statuses: {
+        Args: { _canteen_id?: string }
+        Returns: {
+          canteen_id: string
+          closes_at: string
+          is_open: boolean
+          next_opens_at: string
+          ordering_paused: boolean
+        }[]
+      }
+      get_display_board: {
+        Args: { _canteen_id: string; _token: string }
+        Returns: {
+          pickup_code: string
+          ready_at: string
+          status: string
+        }[]
+      }
+      get_kitchen_load: {
+        Args: { _canteen_id: string }
+        Returns: {
+          at_capacity: boolean
+          queue_length: number
+          recent_orders: number
+          wait_minutes: number
+        }[]
+      }
+      get_peak_hours: {
+        Args: { _canteen_id: string; _from: string; _to: string }
+        Returns: {
+          day_of_week: number
+          hour: number
+          order_count: number
+        }[]
+      }
+      get_pickup_qr: { Args: { _order_id: string }; Returns: string }
+      get_pickup_slots: {
+        Args: { _canteen_id: string }
+        Returns: {
+          booked: number
+          capacity: number
+          end_at: string
+          pickup_at: string
+          slot_id: string
+        }[]
+      }
+      get_sales_by_period: {
+        Args: {
+          _canteen_id: string
+          _from: string
+          _period?: string
+          _to: string
+        }
+        Returns: {
+          order_count: number
+          period_start: string
+          revenue: number
+        }[]
+      }
+      get_sales_summary: {
+        Args: { _canteen_id: string; _from: string; _to: string }
+        Returns: {
+          average_order_value: number
+          lost_order_count: number
+          order_count: number
+          revenue: number
+        }[]
+      }
+      get_settlement_by_status: {
+        Args: { _canteen_id: string; _from: string; _to: string }
+        Returns: {
+          amount: number
+          order_count: number
+          status: string
+        }[]
+      }
+      get_settlement_items: {
+        Args: { _canteen_id: string; _from: string; _to: string }
+        Returns: {
+          amount: number
+          menu_item_id: string
+          name: string
+          quantity: number
+        }[]
+      }
+      get_top_items: {
+        Args: {
+          _canteen_id: string
+          _from: string
+          _limit?: number
+          _to: string
+        }
+        Returns: {
+          menu_item_id: string
+          name: string
+          order_count: number
+          quantity: number
+          revenue: number
+          views: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -214,6 +972,177 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_menu_items: {
+        Args: { _canteen_id: string; _items: Json }
+        Returns: Json
+      }
+      menu_item_prep_minutes: {
+        Args: { _menu_item_id: string }
+        Returns: number
+      }
+      menu_item_windows: {
+        Args: { _days?: number; _menu_item_id: string }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      options_price_delta: { Args: { _options: Json }; Returns: number }
+      order_prep_minutes: { Args: { _order_id: string }; Returns: number }
+      order_status_transition_allowed: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      pickup_slot_start: {
+        Args: { _start_time: string; _timezone: string }
+        Returns: string
+      }
+      place_order: {
+        Args: {
+          _canteen_id: string
+          _items: Json
+          _notes?: string
+          _pickup_slot_id?: string
+        }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      record_menu_views: {
+        Args: { _canteen_id: string; _menu_item_ids: string[] }
+        Returns: undefined
+      }
+      reject_order: {
+        Args: { _note?: string; _order_id: string; _reason: string }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      reject_order_items: {
+        Args: {
+          _note?: string
+          _order_id: string
+          _order_item_ids: string[]
+          _reason: string
+        }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      reorder_menu_categories: {
+        Args: { _category_ids: string[] }
+        Returns: undefined
+      }
+      reorder_menu_items: {
+        Args: { _category_id: string; _item_ids: string[] }
+        Returns: undefined
+      }
+      resolve_cart_options: {
+        Args: { _menu_item_id: string; _option_ids: string[] }
+        Returns: Json
+      }
+      revoke_display_token: {
+        Args: { _id: string }
+        Returns: undefined
+      }
+      verify_pickup_qr: {
+        Args: { _canteen_id: string; _payload: string }
+        Returns: {
+          canteen_id: string
+          created_at: string
+          estimated_prep_minutes: number | null
+          estimated_ready_at: string | null
+          handed_over_at: string | null
+          handed_over_by: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          pickup_at: string | null
+          pickup_code: string | null
+          pickup_slot_id: string | null
+          prepayment_required: boolean
+          rejection_note: string | null
+          rejection_reason: string | null
+          status: string
+          student_id: string
+          total_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
     }
     Enums: {
       app_role: "student" | "vendor"
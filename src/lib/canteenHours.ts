@@ -0,0 +1,26 @@
+import { format, isToday, isTomorrow } from "date-fns";
+import type { BadgeProps } from "@/components/ui/badge";
+import type { CanteenStatus } from "@/integrations/supabase/canteens";
+
+// Indexed by day_of_week, which follows Postgres EXTRACT(DOW): 0 = Sunday
+export const DAYS_OF_WEEK = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// "13:00:00" -> "13:00"
+export const formatTime = (time: string) => time.slice(0, 5);
+
+const formatOpensAt = (opensAt: string) => {
+  const date = new Date(opensAt);
+  if (isToday(date)) return `Opens at ${format(date, "HH:mm")}`;
+  if (isTomorrow(date)) return `Opens tomorrow ${format(date, "HH:mm")}`;
+  return `Opens ${format(date, "EEE HH:mm")}`;
+};
+
+export const describeCanteenStatus = (
+  status: CanteenStatus | null | undefined
+): { label: string; badgeVariant: BadgeProps["variant"]; badgeClassName?: string } => {
+  if (!status) return { label: "Closed", badgeVariant: "secondary" };
+  if (status.ordering_paused) return { label: "Ordering paused", badgeVariant: "secondary" };
+  if (status.is_open) return { label: "Open", badgeVariant: "default", badgeClassName: "bg-success text-white" };
+  if (status.next_opens_at) return { label: formatOpensAt(status.next_opens_at), badgeVariant: "secondary" };
+  return { label: "Closed", badgeVariant: "secondary" };
+};
@@ -0,0 +1,57 @@
+// Minimal RFC 4180 CSV: quoted fields may contain commas, quotes ("") and
+// line breaks. Good enough for spreadsheets exported by Excel or Sheets.
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (header: string[], rows: (string | number | null)[][]) =>
+  [header, ...rows]
+    .map((row) => row.map((value) => escapeCsvField(value === null ? "" : String(value))).join(","))
+    .join("\r\n");
+
+// Returns the records as arrays of fields, skipping blank lines
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim() !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  // Strip the byte order mark Excel adds to UTF-8 files
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw new Error("The file has a quote that is never closed");
+  if (field !== "" || record.length > 0) endRecord();
+
+  return records;
+};
@@ -0,0 +1,25 @@
+// Downscale and re-encode an image in the browser before uploading it, so
+// phone photos of several MB become a ~100 KB WebP (JPEG where the
+// browser cannot encode WebP).
+export const resizeImage = async (file: File, maxSize = 1200, quality = 0.8): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser cannot process images");
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const encode = (type: string) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+  // Browsers that cannot encode WebP hand back a PNG instead of null
+  const webp = await encode("image/webp");
+  const blob = webp?.type === "image/webp" ? webp : await encode("image/jpeg");
+  if (!blob) throw new Error("Could not compress the image");
+  return blob;
+};
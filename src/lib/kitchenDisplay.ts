@@ -0,0 +1,55 @@
+import type { OrderStatus } from "@/lib/orderStatus";
+
+// Columns on the kitchen display, left to right
+export const KITCHEN_COLUMNS: { status: OrderStatus; label: string }[] = [
+  { status: "pending", label: "New" },
+  { status: "accepted", label: "Accepted" },
+  { status: "preparing", label: "Preparing" },
+  { status: "ready", label: "Ready" },
+];
+
+export const WARN_AFTER_OPTIONS = [5, 10, 15, 20, 30];
+
+export type TicketAge = "fresh" | "late" | "overdue";
+
+// A ticket turns late after warnAfter minutes and overdue at twice that
+export const ticketAge = (minutes: number, warnAfter: number): TicketAge => {
+  if (minutes >= warnAfter * 2) return "overdue";
+  if (minutes >= warnAfter) return "late";
+  return "fresh";
+};
+
+export const formatTicketAge = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const WARN_AFTER_KEY = "canteengo:kitchen-warn-after";
+
+// Kept per device, like the ticket printer settings
+export const loadWarnAfterMinutes = () => {
+  const stored = Number(localStorage.getItem(WARN_AFTER_KEY));
+  return WARN_AFTER_OPTIONS.includes(stored) ? stored : 10;
+};
+
+export const saveWarnAfterMinutes = (minutes: number) =>
+  localStorage.setItem(WARN_AFTER_KEY, String(minutes));
+
+// Two short rising tones, generated so the display needs no audio file.
+// The context has to be created from a tap before browsers allow sound.
+export const playChime = (context: AudioContext) => {
+  const start = context.currentTime;
+
+  [880, 1320].forEach((frequency, i) => {
+    const at = start + i * 0.18;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(0.3, at + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.3);
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.32);
+  });
+};
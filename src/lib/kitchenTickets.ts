@@ -0,0 +1,32 @@
+// Thermal roll widths most counter printers take
+export const TICKET_PAPER_WIDTHS = ["58mm", "80mm"] as const;
+
+export type TicketPaperWidth = (typeof TICKET_PAPER_WIDTHS)[number];
+
+export interface TicketPrintSettings {
+  paperWidth: TicketPaperWidth;
+  autoPrint: boolean;
+}
+
+const STORAGE_KEY = "canteengo:ticket-print";
+
+const DEFAULT_SETTINGS: TicketPrintSettings = { paperWidth: "80mm", autoPrint: false };
+
+export const isTicketPaperWidth = (value: string): value is TicketPaperWidth =>
+  (TICKET_PAPER_WIDTHS as readonly string[]).includes(value);
+
+// Kept per device, since each counter has its own printer
+export const loadTicketPrintSettings = (): TicketPrintSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      paperWidth: isTicketPaperWidth(stored.paperWidth) ? stored.paperWidth : DEFAULT_SETTINGS.paperWidth,
+      autoPrint: stored.autoPrint === true,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveTicketPrintSettings = (settings: TicketPrintSettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
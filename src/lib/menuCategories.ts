@@ -0,0 +1,60 @@
+export type MenuCategory = {
+  id: string;
+  name: string;
+  sort_order: number;
+};
+
+type CategorisedItem = {
+  name: string;
+  category_id: string | null;
+  sort_order: number;
+};
+
+export type MenuSection<T> = {
+  key: string;
+  categoryId: string | null;
+  name: string;
+  items: T[];
+};
+
+export const UNCATEGORISED = "uncategorised";
+
+// Group items under their categories in the vendor's order. Items without a
+// category come last under "Other". Empty categories are dropped unless
+// includeEmpty is set, so students never see an empty section.
+export const groupMenuItems = <T extends CategorisedItem>(
+  items: T[],
+  categories: MenuCategory[],
+  includeEmpty = false
+): MenuSection<T>[] => {
+  const byOrder = (a: T, b: T) => a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+  const categoryIds = new Set(categories.map((category) => category.id));
+
+  const sections: MenuSection<T>[] = [...categories]
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+    .map((category) => ({
+      key: category.id,
+      categoryId: category.id,
+      name: category.name,
+      items: items.filter((item) => item.category_id === category.id).sort(byOrder),
+    }));
+
+  sections.push({
+    key: UNCATEGORISED,
+    categoryId: null,
+    name: "Other",
+    items: items
+      .filter((item) => !item.category_id || !categoryIds.has(item.category_id))
+      .sort(byOrder),
+  });
+
+  return sections.filter((section) => includeEmpty || section.items.length > 0);
+};
+
+// Return a copy of list with the entry at from moved to index to
+export const moveInList = <T>(list: T[], from: number, to: number): T[] => {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -0,0 +1,179 @@
+import { parseCsv, toCsv } from "@/lib/csv";
+import type { MenuCategory } from "@/lib/menuCategories";
+import type { MenuImportItem } from "@/integrations/supabase/menu";
+
+export type MenuFileFormat = "csv" | "json";
+
+// Column order of exported files. Imports accept the columns in any order
+// and only require name and price; items being updated keep their current
+// values for any other column the file leaves out.
+export const MENU_FILE_COLUMNS = ["name", "description", "price", "category", "available", "daily_stock"];
+
+// Optional columns and how the preview names them when they overwrite an item
+const OPTIONAL_COLUMN_LABELS: Record<string, string> = {
+  description: "description",
+  category: "category",
+  available: "availability",
+  daily_stock: "daily stock",
+};
+
+type ExportableItem = {
+  name: string;
+  description: string | null;
+  price: number;
+  category_id: string | null;
+  is_available: boolean;
+  daily_stock: number | null;
+};
+
+export const exportMenu = (items: ExportableItem[], categories: MenuCategory[], format: MenuFileFormat) => {
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const rows = items.map((item) => ({
+    name: item.name,
+    description: item.description ?? "",
+    price: item.price,
+    category: (item.category_id && categoryNames.get(item.category_id)) || "",
+    available: item.is_available,
+    daily_stock: item.daily_stock,
+  }));
+
+  if (format === "json") return JSON.stringify(rows, null, 2);
+  return toCsv(
+    MENU_FILE_COLUMNS,
+    rows.map((row) => [
+      row.name,
+      row.description,
+      row.price.toFixed(2),
+      row.category,
+      row.available ? "yes" : "no",
+      row.daily_stock,
+    ])
+  );
+};
+
+export const menuFileFormat = (filename: string): MenuFileFormat | null => {
+  const extension = filename.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return "csv";
+  if (extension === "json") return "json";
+  return null;
+};
+
+// Records keyed by lower-case column name, with every value as a string
+export const readMenuFile = (text: string, format: MenuFileFormat): Record<string, string>[] => {
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    if (!Array.isArray(data)) throw new Error("The JSON file should contain a list of items");
+
+    return data.map((entry) => {
+      if (typeof entry !== "object" || entry === null) throw new Error("Every JSON item should be an object");
+      return Object.fromEntries(
+        Object.entries(entry).map(([key, value]) => [key.trim().toLowerCase(), value == null ? "" : String(value)])
+      );
+    });
+  }
+
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error("The file is empty");
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  if (!columns.includes("name") || !columns.includes("price")) {
+    throw new Error("The file needs a name and a price column");
+  }
+
+  return records.map((record) =>
+    Object.fromEntries(columns.map((column, idx) => [column, record[idx] ?? ""]))
+  );
+};
+
+export type MenuImportRow = MenuImportItem & {
+  row: number;
+  action: "create" | "update";
+  newCategory: boolean;
+  // Optional columns that will replace the current values of an updated item
+  overwrites: string[];
+  errors: string[];
+};
+
+// Blank means available, so a sheet without the column imports everything
+const parseAvailable = (value: string) => {
+  const normalised = value.trim().toLowerCase();
+  if (["", "yes", "y", "true", "1"].includes(normalised)) return true;
+  if (["no", "n", "false", "0"].includes(normalised)) return false;
+  return null;
+};
+
+// Check every record before anything is saved. Names are matched to the
+// existing menu ignoring case, like import_menu_items does.
+export const validateMenuImport = (
+  records: Record<string, string>[],
+  existingItems: { name: string }[],
+  categories: MenuCategory[],
+  createCategories: boolean
+): MenuImportRow[] => {
+  const existingNames = new Set(existingItems.map((item) => item.name.trim().toLowerCase()));
+  const categoryNames = new Set(categories.map((category) => category.name.trim().toLowerCase()));
+  const firstRowByName = new Map<string, number>();
+
+  return records.map((record, idx) => {
+    const row = idx + 1;
+    const errors: string[] = [];
+
+    const name = (record.name ?? "").trim();
+    const key = name.toLowerCase();
+    if (!name) {
+      errors.push("Name is missing");
+    } else if (firstRowByName.has(key)) {
+      errors.push(`Same name as row ${firstRowByName.get(key)}`);
+    } else {
+      firstRowByName.set(key, row);
+    }
+
+    const priceText = (record.price ?? "").replace(/[₹,\s]/g, "");
+    const price = Number(priceText);
+    if (!priceText || !Number.isFinite(price) || price <= 0) {
+      errors.push("Price must be a number above 0");
+    }
+
+    const category = (record.category ?? "").trim();
+    const newCategory = category !== "" && !categoryNames.has(category.toLowerCase());
+    if (newCategory && !createCategories) {
+      errors.push(`Unknown category "${category}"`);
+    }
+
+    const isAvailable = parseAvailable(record.available ?? "");
+    if (isAvailable === null) {
+      errors.push("Available must be yes or no");
+    }
+
+    const stockText = (record.daily_stock ?? "").trim();
+    const dailyStock = stockText === "" ? null : Number(stockText);
+    if (dailyStock !== null && (!Number.isInteger(dailyStock) || dailyStock < 0)) {
+      errors.push("Daily stock must be a whole number");
+    }
+
+    const action = existingNames.has(key) ? "update" : "create";
+    const has = (column: string) => column in record;
+
+    return {
+      row,
+      name,
+      price: Math.round(price * 100) / 100,
+      ...(has("description") && { description: record.description.trim() || null }),
+      ...(has("category") && { category: category || null }),
+      ...(has("available") && { is_available: isAvailable ?? true }),
+      ...(has("daily_stock") && { daily_stock: dailyStock }),
+      action,
+      newCategory,
+      overwrites:
+        action === "update"
+          ? Object.keys(OPTIONAL_COLUMN_LABELS).filter(has).map((column) => OPTIONAL_COLUMN_LABELS[column])
+          : [],
+      errors,
+    };
+  });
+};
@@ -0,0 +1,93 @@
+export type MenuOption = {
+  id: string;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  sort_order: number;
+};
+
+export type MenuOptionGroup = {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number | null;
+  sort_order: number;
+  menu_options: MenuOption[];
+};
+
+// The snapshot stored in order_items.selected_options
+export type SelectedOption = {
+  option_id: string;
+  group_name: string;
+  name: string;
+  price_delta: number;
+};
+
+export const isSingleChoice = (group: Pick<MenuOptionGroup, "max_select">) => group.max_select === 1;
+
+export const describeGroupRule = (group: Pick<MenuOptionGroup, "min_select" | "max_select">) => {
+  if (group.max_select === 1) return group.min_select > 0 ? "Required · choose 1" : "Optional · choose up to 1";
+  if (group.min_select > 0 && group.max_select === group.min_select) {
+    return `Required · choose ${group.min_select}`;
+  }
+
+  const parts = [group.min_select > 0 ? `Required · choose at least ${group.min_select}` : "Optional"];
+  if (group.max_select !== null) parts.push(`up to ${group.max_select}`);
+  return parts.join(", ");
+};
+
+// Groups and options in the order students should see them, without
+// options the vendor has switched off
+export const sortOptionGroups = (groups: MenuOptionGroup[]): MenuOptionGroup[] =>
+  [...groups]
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+    .map((group) => ({
+      ...group,
+      menu_options: group.menu_options
+        .filter((option) => option.is_available)
+        .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)),
+    }))
+    .filter((group) => group.menu_options.length > 0);
+
+// The first rule the selection breaks, mirroring resolve_cart_options on the server
+export const validateOptionSelection = (groups: MenuOptionGroup[], selectedIds: string[]) => {
+  for (const group of groups) {
+    const picked = group.menu_options.filter((option) => selectedIds.includes(option.id)).length;
+    if (picked < group.min_select) return `Please choose ${group.name.toLowerCase()}`;
+    if (group.max_select !== null && picked > group.max_select) {
+      return `Choose at most ${group.max_select} for ${group.name.toLowerCase()}`;
+    }
+  }
+  return null;
+};
+
+export const toSelectedOptions = (groups: MenuOptionGroup[], selectedIds: string[]): SelectedOption[] =>
+  groups.flatMap((group) =>
+    group.menu_options
+      .filter((option) => selectedIds.includes(option.id))
+      .map((option) => ({
+        option_id: option.id,
+        group_name: group.name,
+        name: option.name,
+        price_delta: option.price_delta,
+      }))
+  );
+
+export const optionsPriceDelta = (options: SelectedOption[]) =>
+  options.reduce((sum, option) => sum + option.price_delta, 0);
+
+// "+₹20.00", "-₹5.00" or "" for no change
+export const formatPriceDelta = (delta: number) =>
+  delta === 0 ? "" : `${delta > 0 ? "+" : "-"}₹${Math.abs(delta).toFixed(2)}`;
+
+// "Less spicy, Extra cheese (+₹20.00)"
+export const formatSelectedOptions = (options: SelectedOption[] | null | undefined) =>
+  (options ?? [])
+    .map((option) =>
+      option.price_delta !== 0 ? `${option.name} (${formatPriceDelta(option.price_delta)})` : option.name
+    )
+    .join(", ");
+
+// Cart lines are the same item with the same options
+export const cartLineKey = (menuItemId: string, optionIds: string[]) =>
+  [menuItemId, ...[...optionIds].sort()].join(":");
@@ -0,0 +1,20 @@
+import { format, isToday, isTomorrow } from "date-fns";
+
+// day_of_week follows the same convention as opening hours, see DAYS_OF_WEEK
+export type MenuItemSchedule = {
+  id: string;
+  day_of_week: number;
+  starts_at: string;
+  ends_at: string;
+};
+
+// Hint for an item outside its availability window. availableFrom is
+// NULL when the item has no window in the coming week.
+export const describeAvailableFrom = (availableFrom: string | null) => {
+  if (!availableFrom) return "Not available this week";
+
+  const date = new Date(availableFrom);
+  if (isToday(date)) return `Available from ${format(date, "HH:mm")}`;
+  if (isTomorrow(date)) return `Available tomorrow from ${format(date, "HH:mm")}`;
+  return `Available ${format(date, "EEE")} from ${format(date, "HH:mm")}`;
+};
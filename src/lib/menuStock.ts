@@ -0,0 +1,11 @@
+// Stock counts at or below this are called out to students
+export const LOW_STOCK_THRESHOLD = 5;
+
+// stock_remaining is NULL for items that are not tracked
+export const isLowStock = (stockRemaining: number | null) =>
+  stockRemaining !== null && stockRemaining > 0 && stockRemaining <= LOW_STOCK_THRESHOLD;
+
+export const formatStockLeft = (stockRemaining: number) => `Only ${stockRemaining} left`;
+
+// Form input for an optional stock count: blank means untracked
+export const parseStockInput = (value: string) => (value.trim() === "" ? null : parseInt(value, 10));
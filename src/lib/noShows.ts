@@ -0,0 +1,22 @@
+// What happens to students at or above a canteen's no-show threshold.
+// Keep in sync with canteens.no_show_action
+export const NO_SHOW_ACTIONS = ["prepay", "block"] as const;
+
+export type NoShowAction = (typeof NO_SHOW_ACTIONS)[number];
+
+export const NO_SHOW_ACTION_LABELS: Record<NoShowAction, string> = {
+  prepay: "Require payment before preparing",
+  block: "Block ordering",
+};
+
+export const isNoShowAction = (value: string): value is NoShowAction =>
+  (NO_SHOW_ACTIONS as readonly string[]).includes(value);
+
+// The restriction that applies to a student, mirroring apply_no_show_policy.
+// A NULL threshold means the canteen has no rule.
+export const noShowRestriction = (
+  noShowCount: number,
+  threshold: number | null,
+  action: string
+): NoShowAction | null =>
+  threshold !== null && noShowCount >= threshold && isNoShowAction(action) ? action : null;
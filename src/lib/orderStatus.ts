@@ -0,0 +1,107 @@
+import { Ban, CheckCircle2, ChefHat, Clock, Package, ThumbsUp, UserX, XCircle, type LucideIcon } from "lucide-react";
+import type { BadgeProps } from "@/components/ui/badge";
+
+// Order lifecycle shared by the vendor and student pages.
+// The database enforces the same transitions in
+// public.order_status_transition_allowed; keep the two in sync.
+
+export const ORDER_STATUSES = [
+  "pending",
+  "accepted",
+  "preparing",
+  "ready",
+  "completed",
+  "cancelled_by_student",
+  "rejected_by_vendor",
+  "no_show",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["accepted", "cancelled_by_student", "rejected_by_vendor"],
+  accepted: ["preparing", "rejected_by_vendor"],
+  preparing: ["ready", "rejected_by_vendor"],
+  ready: ["completed", "no_show"],
+  completed: [],
+  cancelled_by_student: [],
+  rejected_by_vendor: [],
+  no_show: [],
+};
+
+// Statuses in which the order still has a live pickup code
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ["pending", "accepted", "preparing", "ready"];
+
+// Terminal statuses where the order was not handed over
+export const CLOSED_ORDER_STATUSES: OrderStatus[] = ["cancelled_by_student", "rejected_by_vendor", "no_show"];
+
+type OrderStatusConfig = {
+  label: string;
+  icon: LucideIcon;
+  badgeVariant: BadgeProps["variant"];
+  badgeClassName?: string;
+};
+
+export const ORDER_STATUS_CONFIG: Record<OrderStatus, OrderStatusConfig> = {
+  pending: { label: "Pending", icon: Clock, badgeVariant: "secondary" },
+  accepted: { label: "Accepted", icon: ThumbsUp, badgeVariant: "outline" },
+  preparing: { label: "Preparing", icon: ChefHat, badgeVariant: "default", badgeClassName: "bg-warning text-white" },
+  ready: { label: "Ready", icon: CheckCircle2, badgeVariant: "default", badgeClassName: "bg-success text-white" },
+  completed: { label: "Completed", icon: Package, badgeVariant: "default", badgeClassName: "bg-success text-white" },
+  cancelled_by_student: { label: "Cancelled", icon: XCircle, badgeVariant: "destructive" },
+  rejected_by_vendor: { label: "Rejected", icon: Ban, badgeVariant: "destructive" },
+  no_show: { label: "No-show", icon: UserX, badgeVariant: "destructive" },
+};
+
+// The single forward step a vendor takes from each status, if any. Ready
+// orders are only completed by entering or scanning the pickup code
+export const VENDOR_NEXT_STEP: Partial<Record<OrderStatus, { status: OrderStatus; action: string }>> = {
+  pending: { status: "accepted", action: "Accept Order" },
+  accepted: { status: "preparing", action: "Start Preparing" },
+  preparing: { status: "ready", action: "Mark as Ready" },
+};
+
+export const isOrderStatus = (value: string): value is OrderStatus =>
+  (ORDER_STATUSES as readonly string[]).includes(value);
+
+export const canTransition = (from: string, to: OrderStatus) =>
+  isOrderStatus(from) && ORDER_TRANSITIONS[from].includes(to);
+
+export const isActiveStatus = (status: string) =>
+  isOrderStatus(status) && ACTIVE_ORDER_STATUSES.includes(status);
+
+export const getStatusConfig = (status: string): OrderStatusConfig =>
+  isOrderStatus(status)
+    ? ORDER_STATUS_CONFIG[status]
+    : { label: status, icon: Clock, badgeVariant: "secondary" };
+
+// Mirrors the checks in public.cancel_order so the UI only offers the
+// action when the server will accept it
+export const canStudentCancel = (
+  order: { status: string; created_at: string },
+  cancellationWindowMinutes: number | null,
+  now: Date = new Date()
+) => {
+  if (order.status !== "pending") return false;
+  if (cancellationWindowMinutes === null || cancellationWindowMinutes === undefined) return true;
+  const deadline = new Date(order.created_at).getTime() + cancellationWindowMinutes * 60_000;
+  return now.getTime() <= deadline;
+};
+
+export const REJECTION_REASONS = ["out_of_stock", "kitchen_closing", "other"] as const;
+
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  out_of_stock: "Out of stock",
+  kitchen_closing: "Kitchen closing",
+  other: "Other",
+};
+
+// "Out of stock", or the vendor's note when the reason is "other"
+export const describeRejection = (reason: string | null, note?: string | null) => {
+  if (!reason) return null;
+  const label = REJECTION_REASON_LABELS[reason as RejectionReason] ?? reason;
+  if (!note) return label;
+  return reason === "other" ? note : `${label}: ${note}`;
+};
@@ -0,0 +1,37 @@
+import { format } from "date-fns";
+
+type SlottedOrder = {
+  created_at: string;
+  pickup_at: string | null;
+};
+
+export type PickupSlotGroup<T> = {
+  key: string;
+  label: string;
+  orders: T[];
+};
+
+// Group orders into kitchen order: "as soon as possible" orders first,
+// oldest first, then each scheduled pickup time in chronological order
+export const groupOrdersByPickupSlot = <T extends SlottedOrder>(orders: T[]): PickupSlotGroup<T>[] => {
+  const groups = new Map<string, T[]>();
+
+  [...orders]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach((order) => {
+      const key = order.pickup_at ?? "asap";
+      groups.set(key, [...(groups.get(key) ?? []), order]);
+    });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => {
+      if (a === "asap") return -1;
+      if (b === "asap") return 1;
+      return new Date(a).getTime() - new Date(b).getTime();
+    })
+    .map(([key, groupOrders]) => ({
+      key,
+      label: key === "asap" ? "As soon as possible" : `Pickup at ${format(new Date(key), "p")}`,
+      orders: groupOrders,
+    }));
+};
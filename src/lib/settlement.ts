@@ -0,0 +1,59 @@
+import { toCsv } from "@/lib/csv";
+import { ACTIVE_ORDER_STATUSES, ORDER_STATUSES, getStatusConfig, isOrderStatus } from "@/lib/orderStatus";
+import type { SettlementItemRow, SettlementStatusRow } from "@/integrations/supabase/reports";
+
+export type SettlementTotals = {
+  orderCount: number;
+  // Completed orders, i.e. money that should be in the till
+  collected: number;
+  // Orders still in progress when the report was run
+  open: number;
+  cancelled: number;
+  rejected: number;
+  noShow: number;
+};
+
+export const summariseSettlement = (rows: SettlementStatusRow[]): SettlementTotals => {
+  const amountFor = (match: (status: string) => boolean) =>
+    rows.filter((row) => match(row.status)).reduce((sum, row) => sum + row.amount, 0);
+
+  return {
+    orderCount: rows.reduce((sum, row) => sum + row.order_count, 0),
+    collected: amountFor((status) => status === "completed"),
+    open: amountFor((status) => isOrderStatus(status) && ACTIVE_ORDER_STATUSES.includes(status)),
+    cancelled: amountFor((status) => status === "cancelled_by_student"),
+    rejected: amountFor((status) => status === "rejected_by_vendor"),
+    noShow: amountFor((status) => status === "no_show"),
+  };
+};
+
+// Lifecycle order, so the report reads from pending to closed
+export const sortByStatus = (rows: SettlementStatusRow[]) =>
+  [...rows].sort(
+    (a, b) =>
+      (ORDER_STATUSES as readonly string[]).indexOf(a.status) - (ORDER_STATUSES as readonly string[]).indexOf(b.status)
+  );
+
+// One sheet with a section column, so it stays easy to filter in a
+// spreadsheet
+export const settlementCsv = (
+  canteenName: string,
+  from: string,
+  to: string,
+  statusRows: SettlementStatusRow[],
+  itemRows: SettlementItemRow[]
+) =>
+  toCsv(
+    ["section", "name", "count", "amount"],
+    [
+      ["canteen", canteenName, null, null],
+      ["period", from === to ? from : `${from} to ${to}`, null, null],
+      ...sortByStatus(statusRows).map((row) => [
+        "status",
+        getStatusConfig(row.status).label,
+        row.order_count,
+        row.amount.toFixed(2),
+      ]),
+      ...itemRows.map((row) => ["item", row.name, row.quantity, row.amount.toFixed(2)]),
+    ]
+  );
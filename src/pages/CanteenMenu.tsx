@@ -1,14 +1,54 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  CartChange,
+  Order,
+  ORDER_NOTES_MAX_LENGTH,
+  OrderError,
+  PickupSlotAvailability,
+  getPickupSlots,
+  placeOrder as placeOrderRpc,
+} from "@/integrations/supabase/orders";
+import {
+  CanteenStatus,
+  KitchenLoad,
+  getCanteenStatus,
+  getKitchenLoad,
+} from "@/integrations/supabase/canteens";
+import { recordMenuViews } from "@/integrations/supabase/analytics";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, ShoppingCart, Plus, Minus, Trash2, QrCode } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, ShoppingCart, Plus, Minus, Trash2, QrCode, AlertTriangle, Clock, UserX } from "lucide-react";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { CanteenStatusBadge } from "@/components/CanteenStatusBadge";
+import { ReadyCountdown } from "@/components/ReadyCountdown";
+import { PickupQrCode } from "@/components/PickupQrCode";
+import { ImageWithFallback } from "@/components/ImageWithFallback";
+import { describeCanteenStatus } from "@/lib/canteenHours";
+import { MenuCategory, groupMenuItems } from "@/lib/menuCategories";
+import {
+  MenuOptionGroup,
+  SelectedOption,
+  cartLineKey,
+  formatSelectedOptions,
+  optionsPriceDelta,
+  sortOptionGroups,
+} from "@/lib/menuOptions";
+import { ItemCustomizationSheet } from "@/components/ItemCustomizationSheet";
+import { formatStockLeft, isLowStock } from "@/lib/menuStock";
+import { describeAvailableFrom } from "@/lib/menuSchedules";
+import { noShowRestriction } from "@/lib/noShows";
+import { cn } from "@/lib/utils";
 
 type MenuItem = {
   id: string;
@@ -16,9 +56,42 @@ type MenuItem = {
   description: string | null;
   price: number;
   is_available: boolean;
+  category_id: string | null;
+  sort_order: number;
+  image_url: string | null;
+  stock_remaining: number | null;
+  in_schedule: boolean;
+  available_from: string | null;
+  menu_option_groups: MenuOptionGroup[];
 };
 
-type CartItem = MenuItem & { quantity: number };
+// One cart line per item and option combination; price includes the options
+type CartItem = MenuItem & {
+  key: string;
+  quantity: number;
+  selected_options: SelectedOption[];
+};
+
+// Select value for "no slot, as soon as possible"
+const ASAP_SLOT = "asap";
+
+const describeCartChange = (change: CartChange) => {
+  const name = change.name ?? "An item";
+  switch (change.reason) {
+    case "price_changed":
+      return `${name}: price changed from ₹${change.expected_price?.toFixed(2)} to ₹${change.current_price?.toFixed(2)}`;
+    case "unavailable":
+      return `${name} is no longer available`;
+    case "options_changed":
+      return `${name}: some of the options you picked are no longer available`;
+    case "low_stock":
+      return `${name}: only ${change.available} left`;
+    case "wrong_canteen":
+      return `${name} is not sold at this canteen`;
+    default:
+      return `${name} has been removed from the menu`;
+  }
+};
 
 const CanteenMenu = () => {
   const { id } = useParams();
@@ -26,11 +99,27 @@ const CanteenMenu = () => {
   const navigate = useNavigate();
   const [canteen, setCanteen] = useState<any>(null);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [activeSection, setActiveSection] = useState<string | null>(null);
+  const [customizingItem, setCustomizingItem] = useState<MenuItem | null>(null);
+  const [notes, setNotes] = useState("");
   const [cart, setCart] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [placing, setPlacing] = useState(false);
   const [pickupCode, setPickupCode] = useState<string | null>(null);
   const [showPickupDialog, setShowPickupDialog] = useState(false);
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([]);
+  const [pickupSlots, setPickupSlots] = useState<PickupSlotAvailability[]>([]);
+  const [selectedSlotId, setSelectedSlotId] = useState<string>(ASAP_SLOT);
+  const [pickupAt, setPickupAt] = useState<string | null>(null);
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
+  const [estimatedReadyAt, setEstimatedReadyAt] = useState<string | null>(null);
+  const [canteenStatus, setCanteenStatus] = useState<CanteenStatus | null>(null);
+  const [kitchenLoad, setKitchenLoad] = useState<KitchenLoad | null>(null);
+  const [noShowCount, setNoShowCount] = useState(0);
+  const viewedItemIds = useRef(new Set<string>());
+  // Read from the realtime handler, which is bound once per canteen
+  const menuItemsRef = useRef<MenuItem[]>([]);
 
   useEffect(() => {
     if (id) {
@@ -38,6 +127,124 @@ const CanteenMenu = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    menuItemsRef.current = menuItems;
+  }, [menuItems]);
+
+  // Move the countdown as the queue ahead of the placed order drains
+  useEffect(() => {
+    if (!placedOrderId) return;
+
+    const channel = supabase
+      .channel(`placed-order-${placedOrderId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "orders",
+          filter: `id=eq.${placedOrderId}`,
+        },
+        (payload) => {
+          setEstimatedReadyAt((payload.new as Order).estimated_ready_at);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [placedOrderId]);
+
+  // Stock counts and sell-outs change as other students order
+  useEffect(() => {
+    if (!id) return;
+
+    const channel = supabase
+      .channel(`menu-items-${id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "menu_items",
+          filter: `canteen_id=eq.${id}`,
+        },
+        (payload) => {
+          const updated = payload.new as Omit<MenuItem, "menu_option_groups">;
+          if (!updated.is_available) {
+            setMenuItems((prev) => prev.filter((item) => item.id !== updated.id));
+          } else if (!menuItemsRef.current.some((item) => item.id === updated.id)) {
+            // Items coming back need their option groups, so reload the menu
+            fetchMenuItems().catch((error) => console.error("Error fetching menu:", error));
+          } else {
+            setMenuItems((prev) =>
+              prev.map((item) => (item.id === updated.id ? { ...item, ...updated } : item))
+            );
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  // Keep the queue length fresh while the kitchen is busy
+  useEffect(() => {
+    if (!kitchenLoad?.at_capacity) return;
+
+    const interval = setInterval(fetchKitchenLoad, 30000);
+    return () => clearInterval(interval);
+  }, [kitchenLoad?.at_capacity]);
+
+  // Highlight the tab of the section currently at the top of the page
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.find((entry) => entry.isIntersecting);
+        if (visible) setActiveSection(visible.target.id.replace("menu-section-", ""));
+      },
+      { rootMargin: "-240px 0px -60% 0px" }
+    );
+
+    document.querySelectorAll("[id^='menu-section-']").forEach((section) => observer.observe(section));
+    return () => observer.disconnect();
+  }, [menuItems, categories]);
+
+  // Count each item once per visit when its card scrolls into view, for
+  // the vendor's conversion stats. Views are sent in small batches.
+  useEffect(() => {
+    const pending: string[] = [];
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = () => {
+      timeout = undefined;
+      if (id && pending.length > 0) recordMenuViews(id, pending.splice(0));
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const itemId = (entry.target as HTMLElement).dataset.menuItemId;
+          if (!entry.isIntersecting || !itemId || viewedItemIds.current.has(itemId)) return;
+          viewedItemIds.current.add(itemId);
+          pending.push(itemId);
+        });
+        if (pending.length > 0 && !timeout) timeout = setTimeout(flush, 2000);
+      },
+      { threshold: 0.5 }
+    );
+
+    document.querySelectorAll("[data-menu-item-id]").forEach((card) => observer.observe(card));
+    return () => {
+      observer.disconnect();
+      clearTimeout(timeout);
+      flush();
+    };
+  }, [id, menuItems]);
+
   const fetchCanteenAndMenu = async () => {
     try {
       const { data: canteenData, error: canteenError } = await supabase
@@ -49,15 +256,20 @@ const CanteenMenu = () => {
       if (canteenError) throw canteenError;
       setCanteen(canteenData);
 
-      const { data: menuData, error: menuError } = await supabase
-        .from("menu_items")
+      const { data: categoryData, error: categoryError } = await supabase
+        .from("menu_categories")
         .select("*")
         .eq("canteen_id", id)
-        .eq("is_available", true)
-        .order("name");
+        .order("sort_order");
 
-      if (menuError) throw menuError;
-      setMenuItems(menuData || []);
+      if (categoryError) throw categoryError;
+      setCategories(categoryData || []);
+
+      await fetchMenuItems();
+      await fetchPickupSlots();
+      setCanteenStatus(await getCanteenStatus(id));
+      await fetchKitchenLoad();
+      await fetchNoShowCount();
     } catch (error) {
       console.error("Error fetching menu:", error);
       toast.error("Failed to load menu");
@@ -66,73 +278,213 @@ const CanteenMenu = () => {
     }
   };
 
-  const addToCart = (item: MenuItem) => {
+  const fetchMenuItems = async () => {
+    const { data, error } = await supabase
+      .from("menu_items")
+      .select("*, menu_option_groups(*, menu_options(*))")
+      .eq("canteen_id", id)
+      .eq("is_available", true)
+      .order("sort_order");
+
+    if (error) throw error;
+    setMenuItems(data || []);
+  };
+
+  const fetchPickupSlots = async () => {
+    try {
+      const slots = await getPickupSlots(id);
+      setPickupSlots(slots);
+      setSelectedSlotId((current) =>
+        current === ASAP_SLOT || slots.some((slot) => slot.slot_id === current) ? current : ASAP_SLOT
+      );
+    } catch (error) {
+      console.error("Error fetching pickup slots:", error);
+    }
+  };
+
+  const fetchKitchenLoad = async () => {
+    try {
+      setKitchenLoad(await getKitchenLoad(id));
+    } catch (error) {
+      console.error("Error fetching kitchen load:", error);
+    }
+  };
+
+  const fetchNoShowCount = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("student_no_shows")
+      .select("no_show_count")
+      .eq("canteen_id", id)
+      .eq("student_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching no-shows:", error);
+      return;
+    }
+    setNoShowCount(data?.no_show_count ?? 0);
+  };
+
+  // Items with options open the customization sheet first
+  const handleAddItem = (item: MenuItem) => {
+    if (sortOptionGroups(item.menu_option_groups).length > 0) {
+      setCustomizingItem(item);
+    } else {
+      addToCart(item, []);
+    }
+  };
+
+  // Stop at the stock left rather than letting place_order bounce the cart
+  const hasStockFor = (itemId: string) => {
+    const item = menuItems.find((i) => i.id === itemId);
+    if (!item || item.stock_remaining === null) return true;
+
+    const inCart = cart
+      .filter((line) => line.id === itemId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    if (inCart < item.stock_remaining) return true;
+
+    toast.error(`${formatStockLeft(item.stock_remaining)} of ${item.name}`);
+    return false;
+  };
+
+  const addToCart = (item: MenuItem, options: SelectedOption[]) => {
+    if (!hasStockFor(item.id)) return;
+    const key = cartLineKey(item.id, options.map((option) => option.option_id));
     setCart((prev) => {
-      const existing = prev.find((i) => i.id === item.id);
+      const existing = prev.find((i) => i.key === key);
       if (existing) {
         return prev.map((i) =>
-          i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i
+          i.key === key ? { ...i, quantity: i.quantity + 1 } : i
         );
       }
-      return [...prev, { ...item, quantity: 1 }];
+      return [
+        ...prev,
+        {
+          ...item,
+          key,
+          quantity: 1,
+          selected_options: options,
+          price: item.price + optionsPriceDelta(options),
+        },
+      ];
     });
   };
 
-  const removeFromCart = (itemId: string) => {
+  const incrementCartLine = (key: string) => {
+    const line = cart.find((i) => i.key === key);
+    if (!line || !hasStockFor(line.id)) return;
+    setCart((prev) => prev.map((i) => (i.key === key ? { ...i, quantity: i.quantity + 1 } : i)));
+  };
+
+  const removeFromCart = (key: string) => {
     setCart((prev) => {
-      const existing = prev.find((i) => i.id === itemId);
+      const existing = prev.find((i) => i.key === key);
       if (existing && existing.quantity > 1) {
         return prev.map((i) =>
-          i.id === itemId ? { ...i, quantity: i.quantity - 1 } : i
+          i.key === key ? { ...i, quantity: i.quantity - 1 } : i
         );
       }
-      return prev.filter((i) => i.id !== itemId);
+      return prev.filter((i) => i.key !== key);
     });
   };
 
-  const clearItemFromCart = (itemId: string) => {
-    setCart((prev) => prev.filter((i) => i.id !== itemId));
+  const clearItemFromCart = (key: string) => {
+    setCart((prev) => prev.filter((i) => i.key !== key));
+  };
+
+  const menuSections = groupMenuItems(menuItems, categories);
+
+  const scrollToSection = (key: string) => {
+    setActiveSection(key);
+    document.getElementById(`menu-section-${key}`)?.scrollIntoView({ behavior: "smooth" });
   };
 
   const totalAmount = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const kitchenBusy = kitchenLoad?.at_capacity ?? false;
+  // Only trust a loaded status; if it failed to load, the server still
+  // refuses orders for a closed canteen
+  const canteenClosed = canteenStatus !== null && !canteenStatus.is_open;
+  const noShowRule = canteen
+    ? noShowRestriction(noShowCount, canteen.no_show_threshold, canteen.no_show_action)
+    : null;
+
+  // Bring the cart in line with the server's view of the menu so the
+  // student can review the changes and confirm again
+  const applyCartChanges = (changes: CartChange[]) => {
+    setCart((prev) => {
+      // Stock left per item, shared between its lines in cart order
+      const stockLeft = new Map<string, number>();
+      changes.forEach((c) => {
+        if (c.reason === "low_stock") stockLeft.set(c.menu_item_id, c.available ?? 0);
+      });
+
+      return prev.flatMap((item) => {
+        const change = changes.find((c) => cartLineKey(c.menu_item_id, c.option_ids) === item.key);
+        if (!change) return [item];
+        if (change.reason === "price_changed" && change.current_price !== null) {
+          return [{ ...item, price: change.current_price }];
+        }
+        if (change.reason === "low_stock") {
+          const left = stockLeft.get(item.id) ?? 0;
+          const quantity = Math.min(item.quantity, left);
+          stockLeft.set(item.id, left - quantity);
+          return quantity > 0 ? [{ ...item, quantity }] : [];
+        }
+        return [];
+      });
+    });
+    setCartChanges(changes);
+  };
 
   const placeOrder = async () => {
     if (!user || cart.length === 0) return;
 
     setPlacing(true);
     try {
-      const { data: orderData, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          student_id: user.id,
-          canteen_id: id,
-          total_amount: totalAmount,
-          status: "pending",
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      const orderItems = cart.map((item) => ({
-        order_id: orderData.id,
-        menu_item_id: item.id,
-        quantity: item.quantity,
-        price: item.price,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
+      const order = await placeOrderRpc(
+        id,
+        cart.map((item) => ({
+          menu_item_id: item.id,
+          quantity: item.quantity,
+          price: item.price,
+          option_ids: item.selected_options.map((option) => option.option_id),
+        })),
+        selectedSlotId === ASAP_SLOT ? null : selectedSlotId,
+        notes
+      );
 
       // Show pickup code dialog
-      setPickupCode(orderData.pickup_code);
+      setPickupCode(order.pickup_code);
+      setPickupAt(order.pickup_at);
+      setPlacedOrderId(order.id);
+      setEstimatedReadyAt(order.estimated_ready_at);
       setShowPickupDialog(true);
       toast.success("Order placed successfully!");
       setCart([]);
+      setCartChanges([]);
+      setNotes("");
     } catch (error: any) {
+      if (error instanceof OrderError && error.code === "cart_changed") {
+        applyCartChanges(error.changes);
+        fetchCanteenAndMenu();
+        toast.warning("Some items in your cart have changed. Please review and confirm.");
+        return;
+      }
+      if (error instanceof OrderError && error.code.startsWith("slot_")) {
+        fetchPickupSlots();
+      }
+      if (error instanceof OrderError && (error.code === "canteen_closed" || error.code === "ordering_paused")) {
+        getCanteenStatus(id).then(setCanteenStatus);
+      }
+      if (error instanceof OrderError && error.code === "kitchen_busy") {
+        fetchKitchenLoad();
+      }
+      if (error instanceof OrderError && error.code === "no_show_blocked") {
+        fetchNoShowCount();
+      }
       console.error("Error placing order:", error);
       toast.error(error.message || "Failed to place order");
     } finally {
@@ -156,8 +508,26 @@ const CanteenMenu = () => {
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Canteens
           </Button>
-          <h1 className="text-3xl font-bold">{canteen?.name}</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">{canteen?.name}</h1>
+            {canteenStatus && <CanteenStatusBadge status={canteenStatus} />}
+          </div>
           <p className="text-muted-foreground">{canteen?.location}</p>
+          {menuSections.length > 1 && (
+            <nav className="flex gap-2 overflow-x-auto pt-4 -mb-1">
+              {menuSections.map((section) => (
+                <Button
+                  key={section.key}
+                  size="sm"
+                  variant={activeSection === section.key ? "default" : "outline"}
+                  className="shrink-0 rounded-full"
+                  onClick={() => scrollToSection(section.key)}
+                >
+                  {section.name}
+                </Button>
+              ))}
+            </nav>
+          )}
         </div>
       </header>
 
@@ -172,26 +542,60 @@ const CanteenMenu = () => {
                 </CardContent>
               </Card>
             ) : (
-              <div className="grid gap-4 md:grid-cols-2">
-                {menuItems.map((item) => (
-                  <Card key={item.id} className="hover:shadow-lg transition-shadow">
-                    <CardHeader>
-                      <CardTitle className="text-lg">{item.name}</CardTitle>
-                      {item.description && (
-                        <CardDescription>{item.description}</CardDescription>
-                      )}
-                    </CardHeader>
-                    <CardContent>
-                      <div className="flex justify-between items-center">
-                        <span className="text-xl font-bold text-primary">
-                          ₹{item.price.toFixed(2)}
-                        </span>
-                        <Button onClick={() => addToCart(item)} size="sm">
-                          <Plus className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </CardContent>
-                  </Card>
+              <div className="space-y-8">
+                {menuSections.map((section) => (
+                  <section key={section.key} id={`menu-section-${section.key}`} className="scroll-mt-60">
+                    {menuSections.length > 1 && (
+                      <h3 className="text-lg font-semibold mb-3">{section.name}</h3>
+                    )}
+                    <div className="grid gap-4 md:grid-cols-2">
+                      {section.items.map((item) => (
+                        <Card
+                          key={item.id}
+                          data-menu-item-id={item.id}
+                          className={cn(
+                            "overflow-hidden hover:shadow-lg transition-shadow",
+                            !item.in_schedule && "opacity-60 hover:shadow-none"
+                          )}
+                        >
+                          <ImageWithFallback
+                            src={item.image_url}
+                            alt={item.name}
+                            className="aspect-video w-full object-cover"
+                            fallback={null}
+                          />
+                          <CardHeader>
+                            <div className="flex justify-between items-start gap-2">
+                              <CardTitle className="text-lg">{item.name}</CardTitle>
+                              {isLowStock(item.stock_remaining) && (
+                                <Badge variant="outline" className="shrink-0 border-warning/50 text-warning">
+                                  {formatStockLeft(item.stock_remaining ?? 0)}
+                                </Badge>
+                              )}
+                            </div>
+                            {item.description && (
+                              <CardDescription>{item.description}</CardDescription>
+                            )}
+                          </CardHeader>
+                          <CardContent>
+                            <div className="flex justify-between items-center">
+                              <span className="text-xl font-bold text-primary">
+                                ₹{item.price.toFixed(2)}
+                              </span>
+                              <Button onClick={() => handleAddItem(item)} size="sm" disabled={!item.in_schedule}>
+                                <Plus className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            {!item.in_schedule && (
+                              <p className="text-sm text-muted-foreground mt-2">
+                                {describeAvailableFrom(item.available_from)}
+                              </p>
+                            )}
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </section>
                 ))}
               </div>
             )}
@@ -206,14 +610,59 @@ const CanteenMenu = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {kitchenBusy && kitchenLoad && (
+                  <Alert className="mb-4">
+                    <Clock className="h-4 w-4" />
+                    <AlertTitle>Kitchen busy</AlertTitle>
+                    <AlertDescription>
+                      {kitchenLoad.queue_length} orders in the queue. New orders open again in about{" "}
+                      {kitchenLoad.wait_minutes} min
+                      {pickupSlots.length > 0 && ", or pre-order for a later pickup time"}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {noShowRule && (
+                  <Alert className="mb-4" variant={noShowRule === "block" ? "destructive" : "default"}>
+                    <UserX className="h-4 w-4" />
+                    <AlertTitle>
+                      {noShowRule === "block" ? "Ordering blocked" : "Payment required"}
+                    </AlertTitle>
+                    <AlertDescription>
+                      You missed {noShowCount} pickups at this canteen.{" "}
+                      {noShowRule === "block"
+                        ? "Speak to the canteen to be able to order again."
+                        : "Pay at the counter before your order is prepared."}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {cartChanges.length > 0 && (
+                  <Alert className="mb-4">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Your cart was updated</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc pl-4 space-y-1">
+                        {cartChanges.map((change) => (
+                          <li key={cartLineKey(change.menu_item_id, change.option_ids)}>
+                            {describeCartChange(change)}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 {cart.length === 0 ? (
                   <p className="text-muted-foreground text-center py-4">Cart is empty</p>
                 ) : (
                   <div className="space-y-4">
                     {cart.map((item) => (
-                      <div key={item.id} className="flex justify-between items-center">
+                      <div key={item.key} className="flex justify-between items-center">
                         <div className="flex-1">
                           <p className="font-medium">{item.name}</p>
+                          {item.selected_options.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatSelectedOptions(item.selected_options)}
+                            </p>
+                          )}
                           <p className="text-sm text-muted-foreground">
                             ₹{item.price.toFixed(2)} × {item.quantity}
                           </p>
@@ -222,7 +671,7 @@ const CanteenMenu = () => {
                           <Button
                             size="icon"
                             variant="outline"
-                            onClick={() => removeFromCart(item.id)}
+                            onClick={() => removeFromCart(item.key)}
                           >
                             <Minus className="h-4 w-4" />
                           </Button>
@@ -230,14 +679,14 @@ const CanteenMenu = () => {
                           <Button
                             size="icon"
                             variant="outline"
-                            onClick={() => addToCart(item)}
+                            onClick={() => incrementCartLine(item.key)}
                           >
                             <Plus className="h-4 w-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="destructive"
-                            onClick={() => clearItemFromCart(item.id)}
+                            onClick={() => clearItemFromCart(item.key)}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -245,16 +694,62 @@ const CanteenMenu = () => {
                       </div>
                     ))}
                     <Separator />
+                    <div className="space-y-2">
+                      <Label>Pickup time</Label>
+                      <Select value={selectedSlotId} onValueChange={setSelectedSlotId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ASAP_SLOT}>As soon as possible</SelectItem>
+                          {pickupSlots.map((slot) => {
+                            const remaining = slot.capacity - slot.booked;
+                            return (
+                              <SelectItem key={slot.slot_id} value={slot.slot_id} disabled={remaining <= 0}>
+                                {format(new Date(slot.pickup_at), "p")} – {format(new Date(slot.end_at), "p")}
+                                {remaining <= 0 ? " (full)" : ` (${remaining} left)`}
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="orderNotes">Notes for the canteen (optional)</Label>
+                      <Textarea
+                        id="orderNotes"
+                        placeholder="e.g. Packing for 3, please add spoons"
+                        value={notes}
+                        maxLength={ORDER_NOTES_MAX_LENGTH}
+                        onChange={(e) => setNotes(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground text-right">
+                        {notes.length}/{ORDER_NOTES_MAX_LENGTH}
+                      </p>
+                    </div>
                     <div className="flex justify-between items-center font-bold text-lg">
                       <span>Total</span>
                       <span className="text-primary">₹{totalAmount.toFixed(2)}</span>
                     </div>
+                    {canteenClosed && (
+                      <p className="text-sm text-muted-foreground text-center">
+                        {canteenStatus?.ordering_paused
+                          ? "This canteen has paused ordering for now."
+                          : `This canteen is closed. ${describeCanteenStatus(canteenStatus).label}.`}
+                      </p>
+                    )}
                     <Button
                       className="w-full"
                       onClick={placeOrder}
-                      disabled={placing || cart.length === 0}
+                      disabled={
+                        placing ||
+                        cart.length === 0 ||
+                        canteenClosed ||
+                        noShowRule === "block" ||
+                        (kitchenBusy && selectedSlotId === ASAP_SLOT)
+                      }
                     >
-                      {placing ? "Placing Order..." : "Place Order"}
+                      {placing ? "Placing Order..." : cartChanges.length > 0 ? "Confirm Order" : "Place Order"}
                     </Button>
                   </div>
                 )}
@@ -264,6 +759,16 @@ const CanteenMenu = () => {
         </div>
       </main>
 
+      <ItemCustomizationSheet
+        item={customizingItem}
+        groups={sortOptionGroups(customizingItem?.menu_option_groups ?? [])}
+        onOpenChange={(open) => !open && setCustomizingItem(null)}
+        onAdd={(options) => {
+          if (customizingItem) addToCart(customizingItem, options);
+          setCustomizingItem(null);
+        }}
+      />
+
       <Dialog open={showPickupDialog} onOpenChange={(open) => {
         setShowPickupDialog(open);
         if (!open) navigate("/student");
@@ -280,11 +785,23 @@ const CanteenMenu = () => {
           </DialogHeader>
           <div className="flex flex-col items-center space-y-4 py-4">
             <div className="text-sm text-muted-foreground">Your Pickup Code:</div>
-            <div className="text-6xl font-bold tracking-wider text-primary">
-              {pickupCode}
-            </div>
+            {placedOrderId && pickupCode ? (
+              <PickupQrCode orderId={placedOrderId} pickupCode={pickupCode} />
+            ) : (
+              <div className="text-6xl font-bold tracking-wider text-primary">
+                {pickupCode}
+              </div>
+            )}
+            {pickupAt && (
+              <div className="text-sm font-medium">
+                Pickup at {format(new Date(pickupAt), "p")}
+              </div>
+            )}
+            {!pickupAt && estimatedReadyAt && (
+              <ReadyCountdown readyAt={estimatedReadyAt} className="font-medium" />
+            )}
             <div className="text-sm text-muted-foreground text-center">
-              Show this code to the vendor when collecting your order
+              Show this QR code to the vendor when collecting your order
             </div>
           </div>
           <Button onClick={() => {
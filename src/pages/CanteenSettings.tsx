@@ -0,0 +1,330 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Save } from "lucide-react";
+import { toast } from "sonner";
+import { PickupSlotsCard } from "@/components/PickupSlotsCard";
+import { OpeningHoursCard } from "@/components/OpeningHoursCard";
+import { NoShowStudentsCard } from "@/components/NoShowStudentsCard";
+import { DisplayTokensCard } from "@/components/DisplayTokensCard";
+import { ImageUploadField } from "@/components/ImageUploadField";
+import { removeMenuImage } from "@/integrations/supabase/storage";
+import { NO_SHOW_ACTIONS, NO_SHOW_ACTION_LABELS, NoShowAction, isNoShowAction } from "@/lib/noShows";
+
+type Canteen = {
+  id: string;
+  name: string;
+  location: string;
+  cancellation_window_minutes: number | null;
+  max_active_orders: number | null;
+  max_orders_per_10_minutes: number | null;
+  no_show_grace_minutes: number | null;
+  no_show_threshold: number | null;
+  no_show_action: string;
+  image_url: string | null;
+};
+
+const CanteenSettings = () => {
+  const { user, userRole, loading: authLoading } = useAuth();
+  const [canteen, setCanteen] = useState<Canteen | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    name: "",
+    location: "",
+    cancellation_window_minutes: "",
+    max_active_orders: "",
+    max_orders_per_10_minutes: "",
+    no_show_grace_minutes: "",
+    no_show_threshold: "",
+    no_show_action: "prepay" as NoShowAction,
+    image_url: null as string | null,
+  });
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!authLoading && (!user || userRole !== "vendor")) {
+      navigate("/auth");
+    }
+  }, [user, userRole, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && userRole === "vendor") {
+      fetchCanteen();
+    }
+  }, [user, userRole]);
+
+  const fetchCanteen = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("canteens")
+        .select("*")
+        .eq("vendor_id", user.id)
+        .limit(1)
+        .single();
+
+      if (error) throw error;
+      setCanteen(data);
+      setFormData({
+        name: data.name,
+        location: data.location,
+        cancellation_window_minutes: data.cancellation_window_minutes?.toString() ?? "",
+        max_active_orders: data.max_active_orders?.toString() ?? "",
+        max_orders_per_10_minutes: data.max_orders_per_10_minutes?.toString() ?? "",
+        no_show_grace_minutes: data.no_show_grace_minutes?.toString() ?? "",
+        no_show_threshold: data.no_show_threshold?.toString() ?? "",
+        no_show_action: isNoShowAction(data.no_show_action) ? data.no_show_action : "prepay",
+        image_url: data.image_url,
+      });
+    } catch (error) {
+      console.error("Error fetching canteen:", error);
+      toast.error("Failed to load canteen settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canteen) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("canteens")
+        .update({
+          name: formData.name,
+          location: formData.location,
+          cancellation_window_minutes: formData.cancellation_window_minutes
+            ? parseInt(formData.cancellation_window_minutes, 10)
+            : null,
+          max_active_orders: formData.max_active_orders
+            ? parseInt(formData.max_active_orders, 10)
+            : null,
+          max_orders_per_10_minutes: formData.max_orders_per_10_minutes
+            ? parseInt(formData.max_orders_per_10_minutes, 10)
+            : null,
+          no_show_grace_minutes: formData.no_show_grace_minutes
+            ? parseInt(formData.no_show_grace_minutes, 10)
+            : null,
+          no_show_threshold: formData.no_show_threshold
+            ? parseInt(formData.no_show_threshold, 10)
+            : null,
+          no_show_action: formData.no_show_action,
+          image_url: formData.image_url,
+        })
+        .eq("id", canteen.id);
+
+      if (error) throw error;
+      if (canteen.image_url && canteen.image_url !== formData.image_url) {
+        removeMenuImage(canteen.image_url);
+      }
+      toast.success("Settings saved!");
+      fetchCanteen();
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5">
+      <header className="bg-card border-b sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => navigate("/vendor")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold">Canteen Settings</h1>
+          <div className="w-[100px]"></div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Canteen Details</CardTitle>
+              <CardDescription>How students find your canteen</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Canteen Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location">Location</Label>
+                <Input
+                  id="location"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  required
+                />
+              </div>
+              {canteen && (
+                <ImageUploadField
+                  canteenId={canteen.id}
+                  label="Canteen Photo"
+                  value={formData.image_url}
+                  onChange={(url) => setFormData({ ...formData, image_url: url })}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Orders</CardTitle>
+              <CardDescription>Rules for how students can change their orders</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="cancellationWindow">Cancellation window (minutes)</Label>
+                <Input
+                  id="cancellationWindow"
+                  type="number"
+                  min="0"
+                  placeholder="Until the order is accepted"
+                  value={formData.cancellation_window_minutes}
+                  onChange={(e) =>
+                    setFormData({ ...formData, cancellation_window_minutes: e.target.value })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Students can cancel pending orders for this many minutes after placing them.
+                  Leave empty to allow cancelling until you accept the order.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maxActiveOrders">Max orders in queue</Label>
+                  <Input
+                    id="maxActiveOrders"
+                    type="number"
+                    min="1"
+                    placeholder="No limit"
+                    value={formData.max_active_orders}
+                    onChange={(e) => setFormData({ ...formData, max_active_orders: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxOrdersPer10Minutes">Max orders per 10 minutes</Label>
+                  <Input
+                    id="maxOrdersPer10Minutes"
+                    type="number"
+                    min="1"
+                    placeholder="No limit"
+                    value={formData.max_orders_per_10_minutes}
+                    onChange={(e) =>
+                      setFormData({ ...formData, max_orders_per_10_minutes: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                While the kitchen is at either limit, new orders for pickup as soon as possible are
+                refused and students see the expected wait. Pre-orders for a pickup slot are not affected.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>No-shows</CardTitle>
+              <CardDescription>What happens when students don't collect their orders</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="noShowGrace">Collection grace period (minutes)</Label>
+                <Input
+                  id="noShowGrace"
+                  type="number"
+                  min="1"
+                  placeholder="Never expire"
+                  value={formData.no_show_grace_minutes}
+                  onChange={(e) => setFormData({ ...formData, no_show_grace_minutes: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Ready orders not collected within this time, counted from when they became ready or
+                  from their pickup time, are marked as no-shows and the student is notified.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="noShowThreshold">No-shows before restricting</Label>
+                  <Input
+                    id="noShowThreshold"
+                    type="number"
+                    min="1"
+                    placeholder="Never restrict"
+                    value={formData.no_show_threshold}
+                    onChange={(e) => setFormData({ ...formData, no_show_threshold: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="noShowAction">Then</Label>
+                  <Select
+                    value={formData.no_show_action}
+                    onValueChange={(value) =>
+                      isNoShowAction(value) && setFormData({ ...formData, no_show_action: value })
+                    }
+                  >
+                    <SelectTrigger id="noShowAction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NO_SHOW_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {NO_SHOW_ACTION_LABELS[action]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                With payment required, the student's orders stay pending until you mark them as paid
+                at the counter.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" className="w-full" disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save Settings"}
+          </Button>
+        </form>
+
+        {canteen && <OpeningHoursCard canteenId={canteen.id} />}
+        {canteen && <PickupSlotsCard canteenId={canteen.id} />}
+        {canteen && <DisplayTokensCard canteenId={canteen.id} />}
+        {canteen && <NoShowStudentsCard canteenId={canteen.id} threshold={canteen.no_show_threshold} />}
+      </main>
+    </div>
+  );
+};
+
+export default CanteenSettings;
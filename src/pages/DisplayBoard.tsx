@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import { ChefHat, PackageCheck, UtensilsCrossed } from "lucide-react";
+import {
+  DisplayBoardOrder,
+  InvalidDisplayTokenError,
+  displayTopic,
+  getDisplayBoard,
+} from "@/integrations/supabase/display";
+import { cn } from "@/lib/utils";
+
+// Codes that became ready this recently are highlighted
+const HIGHLIGHT_SECONDS = 20;
+
+// Fallback refresh in case a broadcast is missed while reconnecting
+const REFRESH_INTERVAL_MS = 30000;
+
+const DisplayBoard = () => {
+  const { canteenId = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [canteenName, setCanteenName] = useState("");
+  const [orders, setOrders] = useState<DisplayBoardOrder[]>([]);
+  const [invalidLink, setInvalidLink] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useWakeLock(!invalidLink);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!token) {
+      setInvalidLink("This display link is missing its token");
+      return;
+    }
+
+    fetchCanteenName();
+    fetchBoard();
+
+    const refreshTimer = window.setInterval(fetchBoard, REFRESH_INTERVAL_MS);
+    const channel = supabase
+      .channel(displayTopic(token))
+      .on("broadcast", { event: "order_status" }, () => fetchBoard())
+      .on("broadcast", { event: "revoked" }, () => {
+        setInvalidLink("This display link has been revoked");
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") fetchBoard();
+      });
+
+    return () => {
+      window.clearInterval(refreshTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [canteenId, token]);
+
+  const fetchCanteenName = async () => {
+    const { data } = await supabase.from("canteens").select("name").eq("id", canteenId).maybeSingle();
+    if (data) setCanteenName(data.name);
+  };
+
+  const fetchBoard = async () => {
+    try {
+      setOrders(await getDisplayBoard(canteenId, token));
+    } catch (error) {
+      if (error instanceof InvalidDisplayTokenError) {
+        setInvalidLink(error.message);
+      } else {
+        // Keep showing the last board; the next refresh will retry
+        console.error("Error fetching display board:", error);
+      }
+    }
+  };
+
+  if (invalidLink) {
+    return (
+      <div className="dark min-h-screen flex flex-col items-center justify-center gap-4 bg-background text-foreground">
+        <UtensilsCrossed className="h-16 w-16 text-primary" />
+        <p className="text-2xl font-semibold">{invalidLink}</p>
+        <p className="text-muted-foreground">Ask the canteen for a new display link.</p>
+      </div>
+    );
+  }
+
+  const preparing = orders.filter((order) => order.status !== "ready");
+  // Most recently ready first, so new codes appear at the top
+  const ready = orders
+    .filter((order) => order.status === "ready")
+    .sort((a, b) => (b.ready_at ?? "").localeCompare(a.ready_at ?? ""));
+
+  const isNew = (order: DisplayBoardOrder) =>
+    order.ready_at !== null && now - new Date(order.ready_at).getTime() < HIGHLIGHT_SECONDS * 1000;
+
+  return (
+    <div className="dark flex h-screen flex-col bg-background text-foreground">
+      <header className="flex items-center justify-between border-b px-8 py-4">
+        <div className="flex items-center gap-3">
+          <UtensilsCrossed className="h-10 w-10 text-primary" />
+          <h1 className="text-4xl font-bold">{canteenName}</h1>
+        </div>
+        <span className="text-4xl font-mono tabular-nums">{format(now, "HH:mm")}</span>
+      </header>
+
+      <main className="grid flex-1 grid-cols-5 overflow-hidden">
+        <section className="col-span-2 flex flex-col border-r p-8">
+          <h2 className="mb-6 flex items-center gap-3 text-3xl font-semibold text-muted-foreground">
+            <ChefHat className="h-8 w-8" />
+            Preparing
+          </h2>
+          <div className="grid grid-cols-2 content-start gap-4 overflow-hidden">
+            {preparing.map((order) => (
+              <p
+                key={order.pickup_code}
+                className="rounded-lg bg-muted py-3 text-center text-4xl font-bold font-mono text-muted-foreground"
+              >
+                {order.pickup_code}
+              </p>
+            ))}
+          </div>
+        </section>
+
+        <section className="col-span-3 flex flex-col p-8">
+          <h2 className="mb-6 flex items-center gap-3 text-3xl font-semibold text-success">
+            <PackageCheck className="h-8 w-8" />
+            Ready for pickup
+          </h2>
+          <div className="grid grid-cols-2 content-start gap-6 overflow-hidden">
+            {ready.map((order) => (
+              <div key={order.pickup_code} className="animate-in fade-in zoom-in-50 duration-700">
+                <p
+                  className={cn(
+                    "rounded-xl py-6 text-center text-6xl font-bold font-mono",
+                    isNew(order)
+                      ? "bg-success text-white ring-4 ring-success/50 animate-pulse"
+                      : "bg-success/15 text-success"
+                  )}
+                >
+                  {order.pickup_code}
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default DisplayBoard;
@@ -0,0 +1,458 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ArrowLeft,
+  CalendarClock,
+  Maximize,
+  Minimize,
+  StickyNote,
+  Volume2,
+  VolumeX,
+  Wallet,
+  Wifi,
+  WifiOff,
+} from "lucide-react";
+import { toast } from "sonner";
+import { OrderStatus, VENDOR_NEXT_STEP, isOrderStatus } from "@/lib/orderStatus";
+import { SelectedOption } from "@/lib/menuOptions";
+import {
+  KITCHEN_COLUMNS,
+  TicketAge,
+  WARN_AFTER_OPTIONS,
+  formatTicketAge,
+  loadWarnAfterMinutes,
+  playChime,
+  saveWarnAfterMinutes,
+  ticketAge,
+} from "@/lib/kitchenDisplay";
+import { cn } from "@/lib/utils";
+
+type Canteen = {
+  id: string;
+  name: string;
+};
+
+type Order = {
+  id: string;
+  status: string;
+  created_at: string;
+  pickup_code: string;
+  student_id: string;
+  pickup_at: string | null;
+  notes: string | null;
+  prepayment_required: boolean;
+  paid_at: string | null;
+  profiles: {
+    name: string;
+  };
+  order_items: {
+    id: string;
+    quantity: number;
+    rejection_reason: string | null;
+    selected_options: SelectedOption[];
+    menu_items: {
+      name: string;
+    };
+  }[];
+};
+
+const AGE_STYLES: Record<TicketAge, { border: string; text: string }> = {
+  fresh: { border: "border-l-success", text: "text-success" },
+  late: { border: "border-l-warning", text: "text-warning" },
+  overdue: { border: "border-l-destructive", text: "text-destructive" },
+};
+
+// Longest wait between reconnect attempts after the realtime channel drops
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const KitchenDisplay = () => {
+  const { user, userRole, loading: authLoading } = useAuth();
+  const [canteen, setCanteen] = useState<Canteen | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [connected, setConnected] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [warnAfter, setWarnAfter] = useState(loadWarnAfterMinutes);
+  const [soundOn, setSoundOn] = useState(false);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [bumpingOrderId, setBumpingOrderId] = useState<string | null>(null);
+  const audioRef = useRef<AudioContext | null>(null);
+  const navigate = useNavigate();
+
+  useWakeLock();
+
+  useEffect(() => {
+    if (!authLoading && (!user || userRole !== "vendor")) {
+      navigate("/auth");
+    }
+  }, [user, userRole, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && userRole === "vendor") {
+      fetchCanteen();
+    }
+  }, [user, userRole]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 15000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  // Resubscribe with backoff whenever the channel errors or closes, and
+  // refetch on every (re)subscribe to pick up changes missed while offline
+  useEffect(() => {
+    if (!canteen) return;
+
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: number | undefined;
+    let attempt = 0;
+    let disposed = false;
+
+    const connect = () => {
+      const next = supabase
+        .channel(`kitchen-${canteen.id}`)
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "orders",
+            filter: `canteen_id=eq.${canteen.id}`,
+          },
+          (payload) => {
+            if (payload.eventType === "INSERT" && audioRef.current) playChime(audioRef.current);
+            fetchOrders(canteen.id);
+          }
+        );
+      channel = next;
+
+      next.subscribe((status) => {
+        if (disposed || channel !== next) return;
+
+        if (status === "SUBSCRIBED") {
+          attempt = 0;
+          setConnected(true);
+          fetchOrders(canteen.id);
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+          setConnected(false);
+          channel = null;
+          supabase.removeChannel(next);
+          retryTimer = window.setTimeout(connect, Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt));
+          attempt += 1;
+        }
+      });
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      window.clearTimeout(retryTimer);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [canteen]);
+
+  const fetchCanteen = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("canteens")
+        .select("id, name")
+        .eq("vendor_id", user.id)
+        .limit(1)
+        .single();
+
+      if (error) throw error;
+      setCanteen(data);
+      await fetchOrders(data.id);
+    } catch (error) {
+      console.error("Error fetching canteen:", error);
+      toast.error("Failed to load kitchen orders");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOrders = async (canteenId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("orders")
+        .select(`
+          id,
+          status,
+          created_at,
+          pickup_code,
+          student_id,
+          pickup_at,
+          notes,
+          prepayment_required,
+          paid_at,
+          order_items (
+            id,
+            quantity,
+            rejection_reason,
+            selected_options,
+            menu_items (name)
+          )
+        `)
+        .eq("canteen_id", canteenId)
+        .in("status", KITCHEN_COLUMNS.map((column) => column.status))
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      // Fetch student profiles separately
+      const studentIds = [...new Set(data.map((o) => o.student_id))];
+      const { data: profilesData } = await supabase
+        .from("profiles")
+        .select("id, name")
+        .in("id", studentIds);
+
+      const profilesMap = new Map(profilesData?.map((p) => [p.id, p]) || []);
+
+      setOrders(
+        data.map((order) => ({
+          ...order,
+          profiles: profilesMap.get(order.student_id) || { name: "Unknown" },
+        })) as unknown as Order[]
+      );
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+    }
+  };
+
+  const nextStepFor = (order: Order) => {
+    if (!isOrderStatus(order.status)) return undefined;
+    if (order.prepayment_required && !order.paid_at) return undefined;
+    return VENDOR_NEXT_STEP[order.status];
+  };
+
+  const bumpOrder = async (order: Order) => {
+    const nextStep = nextStepFor(order);
+    if (!nextStep || bumpingOrderId) return;
+
+    setBumpingOrderId(order.id);
+    try {
+      const { error } = await supabase
+        .from("orders")
+        .update({ status: nextStep.status })
+        .eq("id", order.id);
+
+      if (error) throw error;
+      setOrders((prev) =>
+        prev.map((o) => (o.id === order.id ? { ...o, status: nextStep.status } : o))
+      );
+    } catch (error) {
+      console.error("Error bumping order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update order");
+    } finally {
+      setBumpingOrderId(null);
+    }
+  };
+
+  const toggleSound = () => {
+    if (!audioRef.current) audioRef.current = new AudioContext();
+    audioRef.current.resume();
+    if (!soundOn) playChime(audioRef.current);
+    setSoundOn(!soundOn);
+  };
+
+  useEffect(() => {
+    if (!soundOn) audioRef.current?.suspend();
+  }, [soundOn]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch((error) => {
+        console.error("Error entering full screen:", error);
+      });
+    }
+  };
+
+  const updateWarnAfter = (value: string) => {
+    const minutes = parseInt(value, 10);
+    setWarnAfter(minutes);
+    saveWarnAfterMinutes(minutes);
+  };
+
+  const ordersIn = (status: OrderStatus) => orders.filter((order) => order.status === status);
+
+  // Tickets that can be bumped, numbered 1-9 left to right and oldest first
+  const shortcutOrders = KITCHEN_COLUMNS.flatMap((column) => ordersIn(column.status))
+    .filter((order) => nextStepFor(order))
+    .slice(0, 9);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLElement && event.target.closest("input, textarea, [role='combobox']")) {
+        return;
+      }
+      if (event.key === "f") {
+        toggleFullscreen();
+        return;
+      }
+      const index = parseInt(event.key, 10) - 1;
+      if (index >= 0 && shortcutOrders[index]) bumpOrder(shortcutOrders[index]);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  if (loading || authLoading) {
+    return (
+      <div className="dark min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dark flex h-screen flex-col bg-background text-foreground">
+      <header className="flex items-center justify-between gap-4 border-b px-4 py-2">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/vendor")} title="Back to Dashboard">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">{canteen?.name}</h1>
+          <span
+            className={cn("flex items-center gap-1 text-sm", connected ? "text-success" : "text-destructive")}
+          >
+            {connected ? <Wifi className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+            {connected ? "Live" : "Reconnecting..."}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-2xl font-mono tabular-nums mr-2">{format(now, "HH:mm")}</span>
+          <Select value={String(warnAfter)} onValueChange={updateWarnAfter}>
+            <SelectTrigger className="w-36" aria-label="Highlight orders after">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WARN_AFTER_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  Late after {minutes}m
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={soundOn ? "default" : "outline"}
+            size="icon"
+            onClick={toggleSound}
+            title={soundOn ? "Mute new order chime" : "Chime on new orders"}
+          >
+            {soundOn ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+          </Button>
+          <Button variant="outline" size="icon" onClick={toggleFullscreen} title="Full screen (F)">
+            {fullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+          </Button>
+        </div>
+      </header>
+
+      <main className="grid flex-1 grid-cols-4 gap-2 overflow-hidden p-2">
+        {KITCHEN_COLUMNS.map((column) => {
+          const columnOrders = ordersIn(column.status);
+
+          return (
+            <section key={column.status} className="flex min-h-0 flex-col rounded-lg bg-card">
+              <h2 className="flex items-center justify-between border-b px-3 py-2 text-lg font-semibold">
+                {column.label}
+                <span className="text-muted-foreground">{columnOrders.length}</span>
+              </h2>
+              <div className="flex-1 space-y-2 overflow-y-auto p-2">
+                {columnOrders.map((order) => {
+                  const minutes = Math.max(0, Math.floor((now - new Date(order.created_at).getTime()) / 60000));
+                  const age = AGE_STYLES[ticketAge(minutes, warnAfter)];
+                  const nextStep = nextStepFor(order);
+                  const shortcut = shortcutOrders.indexOf(order) + 1;
+
+                  return (
+                    <button
+                      key={order.id}
+                      type="button"
+                      onClick={() => bumpOrder(order)}
+                      disabled={!nextStep || bumpingOrderId === order.id}
+                      className={cn(
+                        "w-full rounded-md border border-l-8 bg-background p-3 text-left transition-colors",
+                        "enabled:hover:bg-muted disabled:cursor-default",
+                        age.border,
+                        bumpingOrderId === order.id && "opacity-50"
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="text-2xl font-bold font-mono">#{order.pickup_code}</span>
+                        <span className={cn("text-xl font-bold tabular-nums", age.text)}>
+                          {formatTicketAge(minutes)}
+                        </span>
+                      </div>
+                      <p className="font-medium">{order.profiles.name}</p>
+                      {order.pickup_at && (
+                        <p className="flex items-center gap-1 text-sm font-medium text-primary">
+                          <CalendarClock className="h-4 w-4" />
+                          Pickup {format(new Date(order.pickup_at), "HH:mm")}
+                        </p>
+                      )}
+                      <ul className="mt-2 space-y-1">
+                        {order.order_items
+                          .filter((item) => !item.rejection_reason)
+                          .map((item) => (
+                            <li key={item.id} className="text-lg leading-tight">
+                              <span className="font-semibold">{item.quantity}x</span> {item.menu_items.name}
+                              {item.selected_options.map((option) => (
+                                <span key={option.option_id} className="block pl-6 text-sm text-muted-foreground">
+                                  {option.group_name}: {option.name}
+                                </span>
+                              ))}
+                            </li>
+                          ))}
+                      </ul>
+                      {order.notes && (
+                        <p className="mt-2 flex gap-2 rounded bg-warning/20 p-2 text-sm">
+                          <StickyNote className="h-4 w-4 mt-0.5 shrink-0 text-warning" />
+                          <span className="whitespace-pre-wrap break-words">{order.notes}</span>
+                        </p>
+                      )}
+                      {order.prepayment_required && !order.paid_at && (
+                        <p className="mt-2 flex items-center gap-2 text-sm text-warning">
+                          <Wallet className="h-4 w-4" />
+                          Awaiting payment at the counter
+                        </p>
+                      )}
+                      {nextStep && (
+                        <p className="mt-3 flex items-center justify-between text-sm text-muted-foreground">
+                          <span>Tap to {nextStep.action.toLowerCase()}</span>
+                          {shortcut > 0 && (
+                            <kbd className="rounded border px-2 py-0.5 font-mono text-foreground">{shortcut}</kbd>
+                          )}
+                        </p>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
+
+export default KitchenDisplay;
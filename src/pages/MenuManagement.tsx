@@ -8,8 +8,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
-import { ArrowLeft, Plus, Pencil, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Plus, Pencil, Trash2, GripVertical, Download } from "lucide-react";
 import { toast } from "sonner";
+import { reorderMenuCategories, reorderMenuItems } from "@/integrations/supabase/menu";
+import { MenuCategory, groupMenuItems, moveInList } from "@/lib/menuCategories";
+import { MenuItemOptionsDialog } from "@/components/MenuItemOptionsDialog";
+import { MenuItemScheduleDialog } from "@/components/MenuItemScheduleDialog";
+import { MenuImportDialog } from "@/components/MenuImportDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ImageUploadField } from "@/components/ImageUploadField";
+import { ImageWithFallback } from "@/components/ImageWithFallback";
+import { removeMenuImage } from "@/integrations/supabase/storage";
+import { parseStockInput } from "@/lib/menuStock";
+import { describeAvailableFrom } from "@/lib/menuSchedules";
+import { MenuFileFormat, exportMenu } from "@/lib/menuImport";
+import { downloadFile } from "@/lib/download";
 
 type MenuItem = {
   id: string;
@@ -17,21 +36,41 @@ type MenuItem = {
   description: string | null;
   price: number;
   is_available: boolean;
+  category_id: string | null;
+  sort_order: number;
+  image_url: string | null;
+  daily_stock: number | null;
+  stock_remaining: number | null;
+  in_schedule: boolean;
+  available_from: string | null;
+};
+
+type DraggedEntry = { type: "category" | "item"; id: string };
+
+const NO_CATEGORY = "none";
+
+const emptyForm = {
+  name: "",
+  description: "",
+  price: "",
+  is_available: true,
+  category_id: NO_CATEGORY,
+  image_url: null as string | null,
+  daily_stock: "",
+  stock_remaining: "",
 };
 
 const MenuManagement = () => {
   const { user, userRole, loading: authLoading } = useAuth();
   const [canteen, setCanteen] = useState<any>(null);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [dragged, setDragged] = useState<DraggedEntry | null>(null);
   const [loading, setLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    description: "",
-    price: "",
-    is_available: true,
-  });
+  const [formData, setFormData] = useState(emptyForm);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -60,11 +99,20 @@ const MenuManagement = () => {
       if (canteenError) throw canteenError;
       setCanteen(canteenData);
 
+      const { data: categoryData, error: categoryError } = await supabase
+        .from("menu_categories")
+        .select("*")
+        .eq("canteen_id", canteenData.id)
+        .order("sort_order");
+
+      if (categoryError) throw categoryError;
+      setCategories(categoryData || []);
+
       const { data: menuData, error: menuError } = await supabase
         .from("menu_items")
         .select("*")
         .eq("canteen_id", canteenData.id)
-        .order("created_at", { ascending: false });
+        .order("sort_order");
 
       if (menuError) throw menuError;
       setMenuItems(menuData || []);
@@ -81,12 +129,23 @@ const MenuManagement = () => {
     if (!canteen) return;
 
     try {
+      const categoryId = formData.category_id === NO_CATEGORY ? null : formData.category_id;
+      const dailyStock = parseStockInput(formData.daily_stock);
       const itemData = {
         canteen_id: canteen.id,
         name: formData.name,
         description: formData.description || null,
         price: parseFloat(formData.price),
         is_available: formData.is_available,
+        category_id: categoryId,
+        image_url: formData.image_url,
+        daily_stock: dailyStock,
+        // Left blank, today's stock starts at the full daily count
+        stock_remaining: dailyStock === null ? null : parseStockInput(formData.stock_remaining) ?? dailyStock,
+        // New items and items moved to another category go to the end of it
+        ...(editingItem?.category_id !== categoryId || !editingItem
+          ? { sort_order: nextSortOrder(categoryId) }
+          : {}),
       };
 
       if (editingItem) {
@@ -96,6 +155,9 @@ const MenuManagement = () => {
           .eq("id", editingItem.id);
 
         if (error) throw error;
+        if (editingItem.image_url && editingItem.image_url !== formData.image_url) {
+          removeMenuImage(editingItem.image_url);
+        }
         toast.success("Menu item updated!");
       } else {
         const { error } = await supabase
@@ -106,7 +168,7 @@ const MenuManagement = () => {
         toast.success("Menu item added!");
       }
 
-      setFormData({ name: "", description: "", price: "", is_available: true });
+      setFormData(emptyForm);
       setIsEditing(false);
       setEditingItem(null);
       fetchCanteenAndMenu();
@@ -123,18 +185,23 @@ const MenuManagement = () => {
       description: item.description || "",
       price: item.price.toString(),
       is_available: item.is_available,
+      category_id: item.category_id ?? NO_CATEGORY,
+      image_url: item.image_url,
+      daily_stock: item.daily_stock?.toString() ?? "",
+      stock_remaining: item.stock_remaining?.toString() ?? "",
     });
     setIsEditing(true);
   };
 
-  const handleDelete = async (itemId: string) => {
+  const handleDelete = async (item: MenuItem) => {
     try {
       const { error } = await supabase
         .from("menu_items")
         .delete()
-        .eq("id", itemId);
+        .eq("id", item.id);
 
       if (error) throw error;
+      if (item.image_url) removeMenuImage(item.image_url);
       toast.success("Menu item deleted!");
       fetchCanteenAndMenu();
     } catch (error: any) {
@@ -146,7 +213,107 @@ const MenuManagement = () => {
   const cancelEdit = () => {
     setIsEditing(false);
     setEditingItem(null);
-    setFormData({ name: "", description: "", price: "", is_available: true });
+    setFormData(emptyForm);
+  };
+
+  // Items are exported in menu order, so a re-import keeps the layout
+  const handleExport = (fileFormat: MenuFileFormat) => {
+    const items = groupMenuItems(menuItems, categories).flatMap((section) => section.items);
+    const slug = canteen.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadFile(
+      exportMenu(items, categories, fileFormat),
+      `${slug}-menu.${fileFormat}`,
+      fileFormat === "csv" ? "text/csv" : "application/json"
+    );
+  };
+
+  const nextSortOrder = (categoryId: string | null) =>
+    Math.max(0, ...menuItems.filter((item) => item.category_id === categoryId).map((item) => item.sort_order)) + 1;
+
+  const addCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canteen || !newCategoryName.trim()) return;
+
+    try {
+      const { error } = await supabase.from("menu_categories").insert({
+        canteen_id: canteen.id,
+        name: newCategoryName.trim(),
+        sort_order: Math.max(0, ...categories.map((category) => category.sort_order)) + 1,
+      });
+
+      if (error) throw error;
+      setNewCategoryName("");
+      fetchCanteenAndMenu();
+    } catch (error) {
+      console.error("Error adding category:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add category");
+    }
+  };
+
+  const deleteCategory = async (categoryId: string) => {
+    try {
+      const { error } = await supabase
+        .from("menu_categories")
+        .delete()
+        .eq("id", categoryId);
+
+      if (error) throw error;
+      toast.success("Category deleted! Its items moved to Other.");
+      fetchCanteenAndMenu();
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      toast.error("Failed to delete category");
+    }
+  };
+
+  const dropCategory = async (targetId: string) => {
+    if (dragged?.type !== "category" || dragged.id === targetId) return;
+
+    const ordered = [...categories].sort((a, b) => a.sort_order - b.sort_order);
+    const from = ordered.findIndex((category) => category.id === dragged.id);
+    const to = ordered.findIndex((category) => category.id === targetId);
+    const reordered = moveInList(ordered, from, to).map((category, idx) => ({
+      ...category,
+      sort_order: idx + 1,
+    }));
+
+    setCategories(reordered);
+    try {
+      await reorderMenuCategories(reordered.map((category) => category.id));
+    } catch (error) {
+      console.error("Error reordering categories:", error);
+      toast.error("Failed to save the category order");
+      fetchCanteenAndMenu();
+    }
+  };
+
+  // Drop the dragged item into a category, before beforeItemId or at the end
+  const dropItem = async (categoryId: string | null, beforeItemId: string | null) => {
+    if (dragged?.type !== "item" || dragged.id === beforeItemId) return;
+
+    const section = groupMenuItems(menuItems, categories, true).find(
+      (candidate) => candidate.categoryId === categoryId
+    );
+    if (!section) return;
+
+    const ids = section.items.map((item) => item.id).filter((id) => id !== dragged.id);
+    const at = beforeItemId ? ids.indexOf(beforeItemId) : -1;
+    ids.splice(at === -1 ? ids.length : at, 0, dragged.id);
+
+    setMenuItems((prev) =>
+      prev.map((item) =>
+        ids.includes(item.id)
+          ? { ...item, category_id: categoryId, sort_order: ids.indexOf(item.id) + 1 }
+          : item
+      )
+    );
+    try {
+      await reorderMenuItems(categoryId, ids);
+    } catch (error) {
+      console.error("Error reordering menu items:", error);
+      toast.error("Failed to save the item order");
+      fetchCanteenAndMenu();
+    }
   };
 
   if (loading || authLoading) {
@@ -172,70 +339,189 @@ const MenuManagement = () => {
 
       <main className="container mx-auto px-4 py-8">
         <div className="grid gap-6 md:grid-cols-2">
-          <Card>
-            <CardHeader>
-              <CardTitle>{isEditing ? "Edit" : "Add"} Menu Item</CardTitle>
-              <CardDescription>
-                {isEditing ? "Update the menu item details" : "Add a new item to your menu"}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Item Name</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="price">Price (₹)</Label>
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{isEditing ? "Edit" : "Add"} Menu Item</CardTitle>
+                <CardDescription>
+                  {isEditing ? "Update the menu item details" : "Add a new item to your menu"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Item Name</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="price">Price (₹)</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      step="0.01"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select
+                      value={formData.category_id}
+                      onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Other</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="dailyStock">Daily stock</Label>
+                      <Input
+                        id="dailyStock"
+                        type="number"
+                        min="0"
+                        placeholder="Unlimited"
+                        value={formData.daily_stock}
+                        onChange={(e) => setFormData({ ...formData, daily_stock: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="stockRemaining">Left today</Label>
+                      <Input
+                        id="stockRemaining"
+                        type="number"
+                        min="0"
+                        placeholder={formData.daily_stock || "Unlimited"}
+                        value={formData.stock_remaining}
+                        disabled={formData.daily_stock === ""}
+                        onChange={(e) => setFormData({ ...formData, stock_remaining: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  {canteen && (
+                    <ImageUploadField
+                      canteenId={canteen.id}
+                      label="Photo"
+                      value={formData.image_url}
+                      onChange={(url) => setFormData({ ...formData, image_url: url })}
+                    />
+                  )}
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="available">Available</Label>
+                    <Switch
+                      id="available"
+                      checked={formData.is_available}
+                      onCheckedChange={(checked) =>
+                        setFormData({ ...formData, is_available: checked })
+                      }
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" className="flex-1">
+                      <Plus className="h-4 w-4 mr-2" />
+                      {isEditing ? "Update" : "Add"} Item
+                    </Button>
+                    {isEditing && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+                <CardDescription>Drag categories to change the order students see them in</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {[...categories]
+                  .sort((a, b) => a.sort_order - b.sort_order)
+                  .map((category) => (
+                    <div
+                      key={category.id}
+                      draggable
+                      onDragStart={() => setDragged({ type: "category", id: category.id })}
+                      onDragEnd={() => setDragged(null)}
+                      onDragOver={(e) => dragged?.type === "category" && e.preventDefault()}
+                      onDrop={() => dropCategory(category.id)}
+                      className="flex items-center justify-between rounded-md border p-3 cursor-grab"
+                    >
+                      <div className="flex items-center gap-2">
+                        <GripVertical className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">{category.name}</span>
+                      </div>
+                      <Button size="icon" variant="ghost" onClick={() => deleteCategory(category.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                <form onSubmit={addCategory} className="flex gap-2">
                   <Input
-                    id="price"
-                    type="number"
-                    step="0.01"
-                    value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="available">Available</Label>
-                  <Switch
-                    id="available"
-                    checked={formData.is_available}
-                    onCheckedChange={(checked) =>
-                      setFormData({ ...formData, is_available: checked })
-                    }
+                    placeholder="e.g. Breakfast"
+                    value={newCategoryName}
+                    onChange={(e) => setNewCategoryName(e.target.value)}
                   />
-                </div>
-                <div className="flex gap-2">
-                  <Button type="submit" className="flex-1">
+                  <Button type="submit" variant="outline">
                     <Plus className="h-4 w-4 mr-2" />
-                    {isEditing ? "Update" : "Add"} Item
+                    Add
                   </Button>
-                  {isEditing && (
-                    <Button type="button" variant="outline" onClick={cancelEdit}>
-                      Cancel
-                    </Button>
-                  )}
-                </div>
-              </form>
-            </CardContent>
-          </Card>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
 
           <div className="space-y-4">
-            <h2 className="text-xl font-semibold">Current Menu Items</h2>
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">Current Menu Items</h2>
+              {canteen && (
+                <div className="flex gap-2">
+                  <MenuImportDialog
+                    canteenId={canteen.id}
+                    menuItems={menuItems}
+                    categories={categories}
+                    onImported={fetchCanteenAndMenu}
+                  />
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline" disabled={menuItems.length === 0}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleExport("csv")}>CSV (spreadsheet)</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport("json")}>JSON</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
+            </div>
             {menuItems.length === 0 ? (
               <Card>
                 <CardContent className="py-8 text-center text-muted-foreground">
@@ -243,41 +529,86 @@ const MenuManagement = () => {
                 </CardContent>
               </Card>
             ) : (
-              menuItems.map((item) => (
-                <Card key={item.id}>
-                  <CardHeader>
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle className="text-lg">{item.name}</CardTitle>
-                        <CardDescription>₹{item.price.toFixed(2)}</CardDescription>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          onClick={() => handleEdit(item)}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          onClick={() => handleDelete(item.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  {item.description && (
-                    <CardContent>
-                      <p className="text-sm text-muted-foreground">{item.description}</p>
-                      <p className="text-xs mt-2">
-                        Status: {item.is_available ? "Available" : "Unavailable"}
-                      </p>
-                    </CardContent>
+              groupMenuItems(menuItems, categories, true).map((section) => (
+                <div
+                  key={section.key}
+                  className="space-y-3"
+                  onDragOver={(e) => dragged?.type === "item" && e.preventDefault()}
+                  onDrop={() => dropItem(section.categoryId, null)}
+                >
+                  <h3 className="text-sm font-semibold uppercase text-muted-foreground">
+                    {section.name}
+                  </h3>
+                  {section.items.length === 0 && (
+                    <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+                      Drag items here
+                    </p>
                   )}
-                </Card>
+                  {section.items.map((item) => (
+                    <Card
+                      key={item.id}
+                      draggable
+                      onDragStart={() => setDragged({ type: "item", id: item.id })}
+                      onDragEnd={() => setDragged(null)}
+                      onDrop={(e) => {
+                        e.stopPropagation();
+                        dropItem(section.categoryId, item.id);
+                      }}
+                      className="cursor-grab"
+                    >
+                      <CardHeader>
+                        <div className="flex justify-between items-start">
+                          <div className="flex items-start gap-2">
+                            <GripVertical className="h-4 w-4 mt-1 text-muted-foreground" />
+                            <ImageWithFallback
+                              src={item.image_url}
+                              alt={item.name}
+                              className="h-12 w-12 rounded-md object-cover"
+                              fallback={null}
+                            />
+                            <div>
+                              <CardTitle className="text-lg">{item.name}</CardTitle>
+                              <CardDescription>
+                                ₹{item.price.toFixed(2)}
+                                {item.stock_remaining !== null &&
+                                  (item.stock_remaining === 0
+                                    ? " · Sold out"
+                                    : ` · ${item.stock_remaining} of ${item.daily_stock ?? item.stock_remaining} left`)}
+                                {!item.in_schedule && ` · ${describeAvailableFrom(item.available_from)}`}
+                              </CardDescription>
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <MenuItemOptionsDialog menuItemId={item.id} itemName={item.name} />
+                            <MenuItemScheduleDialog menuItemId={item.id} itemName={item.name} />
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => handleEdit(item)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => handleDelete(item)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      {item.description && (
+                        <CardContent>
+                          <p className="text-sm text-muted-foreground">{item.description}</p>
+                          <p className="text-xs mt-2">
+                            Status: {item.is_available ? "Available" : "Unavailable"}
+                          </p>
+                        </CardContent>
+                      )}
+                    </Card>
+                  ))}
+                </div>
               ))
             )}
           </div>
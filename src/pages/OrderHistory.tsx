@@ -4,13 +4,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { OrderTimeline, OrderStatusEvent } from "@/components/OrderTimeline";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Calendar, MapPin, Clock } from "lucide-react";
+import { ArrowLeft, Calendar, MapPin, Clock, CalendarClock } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { ORDER_STATUSES, ORDER_STATUS_CONFIG, canStudentCancel, describeRejection, isActiveStatus } from "@/lib/orderStatus";
+import { SelectedOption, formatSelectedOptions } from "@/lib/menuOptions";
+import { CancelOrderButton } from "@/components/CancelOrderButton";
+import { OrderReceiptDialog } from "@/components/OrderReceiptDialog";
+import { PickupQrCode } from "@/components/PickupQrCode";
 
 type Order = {
   id: string;
@@ -18,16 +24,25 @@ type Order = {
   total_amount: number;
   created_at: string;
   pickup_code: string;
+  pickup_at: string | null;
+  rejection_reason: string | null;
+  rejection_note: string | null;
   canteens: {
     name: string;
     location: string;
+    cancellation_window_minutes: number | null;
   };
   order_items: {
     quantity: number;
+    price: number;
+    rejection_reason: string | null;
+    rejection_note: string | null;
+    selected_options: SelectedOption[];
     menu_items: {
       name: string;
     };
   }[];
+  order_status_events: OrderStatusEvent[];
 };
 
 const OrderHistory = () => {
@@ -68,11 +83,22 @@ const OrderHistory = () => {
           *,
           canteens (
             name,
-            location
+            location,
+            cancellation_window_minutes
           ),
           order_items (
             quantity,
+            price,
+            rejection_reason,
+            rejection_note,
+            selected_options,
             menu_items (name)
+          ),
+          order_status_events (
+            from_status,
+            to_status,
+            changed_by,
+            created_at
           )
         `)
         .eq("student_id", user.id)
@@ -171,8 +197,11 @@ const OrderHistory = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="ready">Ready</SelectItem>
+                    {ORDER_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {ORDER_STATUS_CONFIG[status].label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -233,13 +262,7 @@ const OrderHistory = () => {
                         <h3 className="text-xl font-semibold">
                           {order.canteens.name}
                         </h3>
-                        <Badge
-                          variant={
-                            order.status === "ready" ? "default" : "secondary"
-                          }
-                        >
-                          {order.status}
-                        </Badge>
+                        <OrderStatusBadge status={order.status} />
                       </div>
                       
                       <div className="flex items-center gap-1 text-sm text-muted-foreground">
@@ -252,23 +275,48 @@ const OrderHistory = () => {
                         {format(new Date(order.created_at), "PPP p")}
                       </div>
 
+                      {order.pickup_at && (
+                        <div className="flex items-center gap-1 text-sm font-medium">
+                          <CalendarClock className="h-4 w-4" />
+                          Pickup at {format(new Date(order.pickup_at), "p")}
+                        </div>
+                      )}
+
                       <div className="mt-3">
                         <p className="text-sm font-medium mb-1">Items:</p>
                         <ul className="text-sm text-muted-foreground space-y-1">
                           {order.order_items.map((item, idx) => (
                             <li key={idx}>
-                              {item.quantity}x {item.menu_items.name}
+                              <span className={item.rejection_reason ? "line-through" : undefined}>
+                                {item.quantity}x {item.menu_items.name}
+                              </span>
+                              {item.selected_options.length > 0 && (
+                                <span className="block text-xs pl-5">
+                                  {formatSelectedOptions(item.selected_options)}
+                                </span>
+                              )}
+                              {item.rejection_reason && (
+                                <span className="text-xs text-destructive ml-2">
+                                  Removed: {describeRejection(item.rejection_reason, item.rejection_note)}
+                                </span>
+                              )}
                             </li>
                           ))}
                         </ul>
                       </div>
 
-                      {(order.status === "pending" || order.status === "ready") && order.pickup_code && (
+                      {order.rejection_reason && (
+                        <div className="mt-3 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+                          Rejected by the canteen: {describeRejection(order.rejection_reason, order.rejection_note)}
+                        </div>
+                      )}
+
+                      <OrderTimeline events={order.order_status_events} studentId={user?.id} />
+
+                      {isActiveStatus(order.status) && order.pickup_code && (
                         <div className="mt-3 bg-primary/10 rounded-lg p-3 text-center">
-                          <p className="text-xs text-muted-foreground mb-1">Pickup Code</p>
-                          <p className="text-2xl font-bold font-mono text-primary">
-                            {order.pickup_code}
-                          </p>
+                          <p className="text-xs text-muted-foreground mb-2">Pickup Code</p>
+                          <PickupQrCode orderId={order.id} pickupCode={order.pickup_code} size={140} />
                         </div>
                       )}
                     </div>
@@ -277,6 +325,10 @@ const OrderHistory = () => {
                       <div className="text-2xl font-bold text-primary">
                         ₹{order.total_amount.toFixed(2)}
                       </div>
+                      <OrderReceiptDialog order={order} />
+                      {canStudentCancel(order, order.canteens.cancellation_window_minutes) && (
+                        <CancelOrderButton orderId={order.id} onCancelled={fetchOrders} />
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { toast } from "sonner";
+import {
+  SettlementItemRow,
+  SettlementStatusRow,
+  getSettlementByStatus,
+  getSettlementItems,
+} from "@/integrations/supabase/reports";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { settlementCsv, sortByStatus, summariseSettlement } from "@/lib/settlement";
+import { downloadFile } from "@/lib/download";
+
+type Canteen = {
+  id: string;
+  name: string;
+  location: string;
+};
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "EEE, d MMM yyyy");
+
+const SettlementReport = () => {
+  const { user, userRole, loading: authLoading } = useAuth();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [canteen, setCanteen] = useState<Canteen | null>(null);
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [statusRows, setStatusRows] = useState<SettlementStatusRow[]>([]);
+  const [itemRows, setItemRows] = useState<SettlementItemRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!authLoading && (!user || userRole !== "vendor")) {
+      navigate("/auth");
+    }
+  }, [user, userRole, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && userRole === "vendor") {
+      fetchCanteen();
+    }
+  }, [user, userRole]);
+
+  useEffect(() => {
+    if (canteen && from && to && from <= to) fetchReport();
+  }, [canteen, from, to]);
+
+  const fetchCanteen = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("canteens")
+        .select("id, name, location")
+        .eq("vendor_id", user.id)
+        .limit(1)
+        .single();
+
+      if (error) throw error;
+      setCanteen(data);
+    } catch (error) {
+      console.error("Error fetching canteen:", error);
+      toast.error("Failed to load canteen");
+      setLoading(false);
+    }
+  };
+
+  const fetchReport = async () => {
+    if (!canteen) return;
+
+    try {
+      const [statusData, itemData] = await Promise.all([
+        getSettlementByStatus(canteen.id, from, to),
+        getSettlementItems(canteen.id, from, to),
+      ]);
+      setStatusRows(sortByStatus(statusData));
+      setItemRows(itemData);
+    } catch (error) {
+      console.error("Error fetching settlement report:", error);
+      toast.error("Failed to load report");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!canteen) return;
+    downloadFile(
+      settlementCsv(canteen.name, from, to, statusRows, itemRows),
+      from === to ? `settlement-${from}.csv` : `settlement-${from}-to-${to}.csv`,
+      "text/csv"
+    );
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  const totals = summariseSettlement(statusRows);
+  const itemsTotal = itemRows.reduce((sum, row) => sum + row.amount, 0);
+  const totalCards = [
+    { label: "Orders", value: totals.orderCount.toString() },
+    { label: "Collected", value: `₹${totals.collected.toFixed(2)}` },
+    { label: "Still open", value: `₹${totals.open.toFixed(2)}` },
+    { label: "Cancelled", value: `₹${totals.cancelled.toFixed(2)}` },
+    { label: "Rejected", value: `₹${totals.rejected.toFixed(2)}` },
+    { label: "No-show", value: `₹${totals.noShow.toFixed(2)}` },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5 print:bg-none">
+      <header className="bg-card border-b sticky top-0 z-10 shadow-sm print:hidden">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => navigate("/vendor")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold">Settlement Report</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExportCsv}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print / PDF
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6 print:py-0">
+        <div className="grid grid-cols-2 gap-4 max-w-sm print:hidden">
+          <div className="space-y-2">
+            <Label htmlFor="reportFrom">From</Label>
+            <Input id="reportFrom" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reportTo">To</Label>
+            <Input id="reportTo" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-xl font-semibold">{canteen?.name}</h2>
+          <p className="text-sm text-muted-foreground">
+            {canteen?.location} · {from === to ? formatDate(from) : `${formatDate(from)} – ${formatDate(to)}`}
+          </p>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+          {totalCards.map((card) => (
+            <Card key={card.label} className="print:shadow-none">
+              <CardHeader className="pb-2">
+                <CardDescription>{card.label}</CardDescription>
+                <CardTitle className="text-2xl">{card.value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="print:shadow-none print:break-inside-avoid">
+          <CardHeader>
+            <CardTitle>Orders by Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {statusRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No orders in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Orders</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statusRows.map((row) => (
+                    <TableRow key={row.status}>
+                      <TableCell>
+                        <OrderStatusBadge status={row.status} />
+                      </TableCell>
+                      <TableCell className="text-right">{row.order_count}</TableCell>
+                      <TableCell className="text-right">₹{row.amount.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="print:shadow-none">
+          <CardHeader>
+            <CardTitle>Items Sold</CardTitle>
+            <CardDescription>Items handed over in completed orders</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {itemRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No completed orders in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {itemRows.map((row) => (
+                    <TableRow key={row.menu_item_id}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">{row.quantity}</TableCell>
+                      <TableCell className="text-right">₹{row.amount.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">
+                      {itemRows.reduce((sum, row) => sum + row.quantity, 0)}
+                    </TableCell>
+                    <TableCell className="text-right">₹{itemsTotal.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SettlementReport;
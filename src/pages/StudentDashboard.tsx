@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
@@ -6,7 +6,21 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { UtensilsCrossed, MapPin, LogOut, Bell, BellOff, History } from "lucide-react";
 import { toast } from "sonner";
-import { requestNotificationPermission, showOrderReadyNotification } from "@/utils/notifications";
+import { format } from "date-fns";
+import {
+  requestNotificationPermission,
+  showOrderItemsRejectedNotification,
+  showOrderNoShowNotification,
+  showOrderReadyNotification,
+  showOrderRejectedNotification,
+} from "@/utils/notifications";
+import { canStudentCancel, describeRejection, getStatusConfig, isActiveStatus } from "@/lib/orderStatus";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { CancelOrderButton } from "@/components/CancelOrderButton";
+import { CanteenStatusBadge } from "@/components/CanteenStatusBadge";
+import { ReadyCountdown } from "@/components/ReadyCountdown";
+import { ImageWithFallback } from "@/components/ImageWithFallback";
+import { CanteenStatus, getCanteenStatuses } from "@/integrations/supabase/canteens";
 
 type Canteen = {
   id: string;
@@ -21,15 +35,21 @@ type Order = {
   total_amount: number;
   created_at: string;
   pickup_code: string;
+  pickup_at: string | null;
+  estimated_ready_at: string | null;
   canteens: {
     name: string;
+    cancellation_window_minutes: number | null;
   };
 };
 
 const StudentDashboard = () => {
   const { user, userRole, signOut, loading: authLoading } = useAuth();
   const [canteens, setCanteens] = useState<Canteen[]>([]);
+  const [canteenStatuses, setCanteenStatuses] = useState<Map<string, CanteenStatus>>(new Map());
   const [orders, setOrders] = useState<Order[]>([]);
+  // Read from the realtime handler, which is bound once on mount
+  const ordersRef = useRef<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const navigate = useNavigate();
@@ -47,6 +67,10 @@ const StudentDashboard = () => {
     }
   }, []);
 
+  useEffect(() => {
+    ordersRef.current = orders;
+  }, [orders]);
+
   useEffect(() => {
     if (user && userRole === "student") {
       fetchCanteens();
@@ -64,6 +88,7 @@ const StudentDashboard = () => {
 
       if (error) throw error;
       setCanteens(data || []);
+      setCanteenStatuses(await getCanteenStatuses());
     } catch (error) {
       console.error("Error fetching canteens:", error);
       toast.error("Failed to load canteens");
@@ -89,10 +114,28 @@ const StudentDashboard = () => {
           console.log("Order update:", payload);
           
           const newOrder = payload.new as any;
-          const oldOrder = payload.old as any;
-          
+
+          // With RLS on orders, payload.old only carries the id, so compare
+          // against the copy on screen. It is updated here as well so a
+          // second event arriving before the refetch sees the new values.
+          const previous = ordersRef.current.find((order) => order.id === newOrder.id);
+          if (!previous) {
+            fetchOrders();
+            return;
+          }
+          ordersRef.current = ordersRef.current.map((order) =>
+            order.id === newOrder.id
+              ? {
+                  ...order,
+                  status: newOrder.status,
+                  total_amount: newOrder.total_amount,
+                  estimated_ready_at: newOrder.estimated_ready_at,
+                }
+              : order
+          );
+
           // Check if order just became ready
-          if (oldOrder.status === "pending" && newOrder.status === "ready") {
+          if (newOrder.status === "ready" && previous.status !== "ready") {
             // Fetch canteen details for the notification
             const { data: canteenData } = await supabase
               .from("canteens")
@@ -109,8 +152,68 @@ const StudentDashboard = () => {
             
             toast.success("Your order is ready for pickup!");
             fetchOrders();
-          } else if (newOrder.status !== oldOrder.status) {
+          } else if (newOrder.status === "rejected_by_vendor" && previous.status !== "rejected_by_vendor") {
+            const { data: canteenData } = await supabase
+              .from("canteens")
+              .select("name")
+              .eq("id", newOrder.canteen_id)
+              .single();
+
+            const reason = describeRejection(newOrder.rejection_reason, newOrder.rejection_note);
+
+            if (notificationsEnabled && canteenData) {
+              showOrderRejectedNotification({
+                canteenName: canteenData.name,
+                reason,
+              });
+            }
+
+            toast.error(`Your order was rejected: ${reason}`);
             fetchOrders();
+          } else if (newOrder.status === "no_show" && previous.status !== "no_show") {
+            const { data: canteenData } = await supabase
+              .from("canteens")
+              .select("name")
+              .eq("id", newOrder.canteen_id)
+              .single();
+
+            if (notificationsEnabled && canteenData) {
+              showOrderNoShowNotification({ canteenName: canteenData.name });
+            }
+
+            toast.error("Your order wasn't collected in time and was marked as a no-show");
+            fetchOrders();
+          } else if (newOrder.status === previous.status && newOrder.total_amount !== previous.total_amount) {
+            // The vendor rejected some lines and the total was recalculated
+            const { data: canteenData } = await supabase
+              .from("canteens")
+              .select("name")
+              .eq("id", newOrder.canteen_id)
+              .single();
+
+            if (notificationsEnabled && canteenData) {
+              showOrderItemsRejectedNotification({
+                canteenName: canteenData.name,
+                totalAmount: newOrder.total_amount,
+              });
+            }
+
+            toast.warning("Some items were removed from your order", {
+              description: `New total: ₹${newOrder.total_amount.toFixed(2)}`,
+            });
+            fetchOrders();
+          } else if (newOrder.status !== previous.status) {
+            toast.info(`Your order is now ${getStatusConfig(newOrder.status).label.toLowerCase()}`);
+            fetchOrders();
+          } else if (newOrder.estimated_ready_at !== previous.estimated_ready_at) {
+            // The queue ahead moved, so the estimate was refreshed
+            setOrders((prev) =>
+              prev.map((order) =>
+                order.id === newOrder.id
+                  ? { ...order, estimated_ready_at: newOrder.estimated_ready_at }
+                  : order
+              )
+            );
           }
         }
       )
@@ -143,7 +246,7 @@ const StudentDashboard = () => {
         .from("orders")
         .select(`
           *,
-          canteens (name)
+          canteens (name, cancellation_window_minutes)
         `)
         .eq("student_id", user.id)
         .order("created_at", { ascending: false })
@@ -156,6 +259,8 @@ const StudentDashboard = () => {
     }
   };
 
+  const activeOrders = orders.filter((order) => isActiveStatus(order.status));
+
   if (loading || authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -198,6 +303,47 @@ const StudentDashboard = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8 space-y-8">
+        {activeOrders.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-bold mb-4">Your Active Orders</h2>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {activeOrders.map((order) => (
+                <Card key={order.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="text-lg">{order.canteens.name}</CardTitle>
+                        <CardDescription>₹{order.total_amount.toFixed(2)}</CardDescription>
+                      </div>
+                      <OrderStatusBadge status={order.status} />
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="bg-primary/10 rounded-lg p-3 text-center">
+                      <p className="text-xs text-muted-foreground mb-1">Pickup Code</p>
+                      <p className="text-2xl font-bold font-mono text-primary">{order.pickup_code}</p>
+                      {order.pickup_at && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Pickup at {format(new Date(order.pickup_at), "p")}
+                        </p>
+                      )}
+                      {!order.pickup_at && order.estimated_ready_at && order.status !== "ready" && (
+                        <ReadyCountdown
+                          readyAt={order.estimated_ready_at}
+                          className="text-xs text-muted-foreground mt-1"
+                        />
+                      )}
+                    </div>
+                    {canStudentCancel(order, order.canteens.cancellation_window_minutes) && (
+                      <CancelOrderButton orderId={order.id} onCancelled={fetchOrders} className="w-full" />
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Canteens Section */}
         <section>
           <h2 className="text-2xl font-bold mb-4">Available Canteens</h2>
@@ -215,8 +361,19 @@ const StudentDashboard = () => {
                   className="overflow-hidden hover:shadow-xl transition-all duration-300 cursor-pointer group"
                   onClick={() => navigate(`/student/canteen/${canteen.id}`)}
                 >
-                  <div className="h-48 bg-gradient-to-br from-primary/20 to-secondary/20 flex items-center justify-center">
-                    <UtensilsCrossed className="h-16 w-16 text-primary/40 group-hover:scale-110 transition-transform" />
+                  <div className="relative h-48 bg-gradient-to-br from-primary/20 to-secondary/20 flex items-center justify-center">
+                    <ImageWithFallback
+                      src={canteen.image_url}
+                      alt={canteen.name}
+                      className="absolute inset-0 h-full w-full object-cover"
+                      fallback={
+                        <UtensilsCrossed className="h-16 w-16 text-primary/40 group-hover:scale-110 transition-transform" />
+                      }
+                    />
+                    <CanteenStatusBadge
+                      status={canteenStatuses.get(canteen.id)}
+                      className="absolute top-3 right-3"
+                    />
                   </div>
                   <CardHeader>
                     <CardTitle className="group-hover:text-primary transition-colors">
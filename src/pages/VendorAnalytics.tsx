@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, subDays } from "date-fns";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PeakHour,
+  SalesByPeriod,
+  SalesPeriod,
+  SalesSummary,
+  TopItem,
+  getPeakHours,
+  getSalesByPeriod,
+  getSalesSummary,
+  getTopItems,
+} from "@/integrations/supabase/analytics";
+import { PeakHoursHeatmap } from "@/components/PeakHoursHeatmap";
+
+const RANGE_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+const chartConfig = {
+  revenue: { label: "Revenue (₹)", color: "hsl(var(--primary))" },
+  order_count: { label: "Orders", color: "hsl(var(--secondary-foreground))" },
+} satisfies ChartConfig;
+
+const formatPeriod = (periodStart: string, period: SalesPeriod) => {
+  const date = new Date(`${periodStart}T00:00:00`);
+  return period === "week" ? `w/c ${format(date, "d MMM")}` : format(date, "d MMM");
+};
+
+// Share of views that led to an order; blank until the item has views
+const formatConversion = (item: TopItem) =>
+  item.views > 0 ? `${Math.round((item.order_count / item.views) * 100)}%` : "—";
+
+const VendorAnalytics = () => {
+  const { user, userRole, loading: authLoading } = useAuth();
+  const [canteenId, setCanteenId] = useState<string | null>(null);
+  const [rangeDays, setRangeDays] = useState("30");
+  const [period, setPeriod] = useState<SalesPeriod>("day");
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [salesByPeriod, setSalesByPeriod] = useState<SalesByPeriod[]>([]);
+  const [topItems, setTopItems] = useState<TopItem[]>([]);
+  const [peakHours, setPeakHours] = useState<PeakHour[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!authLoading && (!user || userRole !== "vendor")) {
+      navigate("/auth");
+    }
+  }, [user, userRole, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && userRole === "vendor") {
+      fetchCanteen();
+    }
+  }, [user, userRole]);
+
+  useEffect(() => {
+    if (canteenId) fetchAnalytics();
+  }, [canteenId, rangeDays, period]);
+
+  const fetchCanteen = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("canteens")
+        .select("id")
+        .eq("vendor_id", user.id)
+        .limit(1)
+        .single();
+
+      if (error) throw error;
+      setCanteenId(data.id);
+    } catch (error) {
+      console.error("Error fetching canteen:", error);
+      toast.error("Failed to load canteen");
+      setLoading(false);
+    }
+  };
+
+  const fetchAnalytics = async () => {
+    if (!canteenId) return;
+
+    const to = new Date();
+    const range = { from: subDays(to, parseInt(rangeDays, 10)), to };
+    try {
+      const [summaryData, periodData, topItemsData, peakHoursData] = await Promise.all([
+        getSalesSummary(canteenId, range),
+        getSalesByPeriod(canteenId, range, period),
+        getTopItems(canteenId, range),
+        getPeakHours(canteenId, range),
+      ]);
+      setSummary(summaryData);
+      setSalesByPeriod(periodData);
+      setTopItems(topItemsData);
+      setPeakHours(peakHoursData);
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      toast.error("Failed to load analytics");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  const summaryCards = [
+    { label: "Revenue", value: `₹${(summary?.revenue ?? 0).toFixed(2)}` },
+    { label: "Orders", value: (summary?.order_count ?? 0).toString() },
+    { label: "Average order", value: `₹${(summary?.average_order_value ?? 0).toFixed(2)}` },
+    { label: "Cancelled or rejected", value: (summary?.lost_order_count ?? 0).toString() },
+  ];
+
+  const chartData = salesByPeriod.map((row) => ({ ...row, label: formatPeriod(row.period_start, period) }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5">
+      <header className="bg-card border-b sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => navigate("/vendor")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold">Sales Analytics</h1>
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+          {summaryCards.map((card) => (
+            <Card key={card.label}>
+              <CardHeader className="pb-2">
+                <CardDescription>{card.label}</CardDescription>
+                <CardTitle className="text-2xl">{card.value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Revenue</CardTitle>
+              <CardDescription>Revenue and number of orders per {period}</CardDescription>
+            </div>
+            <Tabs value={period} onValueChange={(value) => setPeriod(value as SalesPeriod)}>
+              <TabsList>
+                <TabsTrigger value="day">Daily</TabsTrigger>
+                <TabsTrigger value="week">Weekly</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[300px] w-full aspect-auto">
+              <ComposedChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis yAxisId="revenue" tickLine={false} axisLine={false} width={50} />
+                <YAxis yAxisId="orders" orientation="right" tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar yAxisId="revenue" dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                <Line
+                  yAxisId="orders"
+                  dataKey="order_count"
+                  stroke="var(--color-order_count)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Items</CardTitle>
+              <CardDescription>Conversion is orders with the item per time it was shown</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {topItems.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No sales in this period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">Conversion</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {topItems.map((item) => (
+                      <TableRow key={item.menu_item_id}>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell className="text-right">{item.quantity}</TableCell>
+                        <TableCell className="text-right">₹{item.revenue.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{formatConversion(item)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Peak Hours</CardTitle>
+              <CardDescription>Orders by weekday and hour of the day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PeakHoursHeatmap peakHours={peakHours} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default VendorAnalytics;
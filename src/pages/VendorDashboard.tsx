@@ -1,14 +1,43 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { UtensilsCrossed, LogOut, CheckCircle2, Clock, Plus, Package, Search } from "lucide-react";
+import { UtensilsCrossed, LogOut, Plus, Search, Settings, CalendarClock, StickyNote, BarChart3, FileText, Printer, PackageCheck, Wallet, ChefHat } from "lucide-react";
 import { toast } from "sonner";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { OrderTimeline, OrderStatusEvent } from "@/components/OrderTimeline";
+import { RejectOrderDialog } from "@/components/RejectOrderDialog";
+import { KitchenTickets } from "@/components/KitchenTickets";
+import { PickupQrScanner } from "@/components/PickupQrScanner";
+import { CompleteByCodeForm } from "@/components/CompleteByCodeForm";
+import {
+  CLOSED_ORDER_STATUSES,
+  ORDER_STATUS_CONFIG,
+  OrderStatus,
+  VENDOR_NEXT_STEP,
+  canTransition,
+  describeRejection,
+  isActiveStatus,
+  isOrderStatus,
+} from "@/lib/orderStatus";
+import { groupOrdersByPickupSlot } from "@/lib/pickupSlots";
+import { cn } from "@/lib/utils";
+import { SelectedOption, formatSelectedOptions } from "@/lib/menuOptions";
+import {
+  TICKET_PAPER_WIDTHS,
+  TicketPrintSettings,
+  isTicketPaperWidth,
+  loadTicketPrintSettings,
+  saveTicketPrintSettings,
+} from "@/lib/kitchenTickets";
 
 type Order = {
   id: string;
@@ -16,15 +45,28 @@ type Order = {
   total_amount: number;
   created_at: string;
   pickup_code: string;
+  student_id: string;
+  pickup_at: string | null;
+  notes: string | null;
+  rejection_reason: string | null;
+  rejection_note: string | null;
+  handed_over_at: string | null;
+  prepayment_required: boolean;
+  paid_at: string | null;
   profiles: {
     name: string;
   };
   order_items: {
+    id: string;
     quantity: number;
+    rejection_reason: string | null;
+    rejection_note: string | null;
+    selected_options: SelectedOption[];
     menu_items: {
       name: string;
     };
   }[];
+  order_status_events: OrderStatusEvent[];
 };
 
 const VendorDashboard = () => {
@@ -34,6 +76,14 @@ const VendorDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [notesOnly, setNotesOnly] = useState(false);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set());
+  const [printQueue, setPrintQueue] = useState<Order[]>([]);
+  const [printSettings, setPrintSettings] = useState(loadTicketPrintSettings);
+  // Read from the realtime handler, which is bound once on mount
+  const autoPrintRef = useRef(printSettings.autoPrint);
+  const ordersRef = useRef<Order[]>([]);
+  const printingRef = useRef(false);
   const navigate = useNavigate();
   const location = useLocation();
   const justRegistered = location.state?.justRegistered;
@@ -74,6 +124,25 @@ const VendorDashboard = () => {
     }
   }, [user, userRole]);
 
+  useEffect(() => {
+    ordersRef.current = orders;
+  }, [orders]);
+
+  useEffect(() => {
+    if (printQueue.length === 0 || printingRef.current) return;
+
+    // Orders queued while the print dialog is open are printed on the next pass
+    const printed = printQueue.length;
+    const finishPrint = () => {
+      printingRef.current = false;
+      setPrintQueue((queue) => queue.slice(printed));
+    };
+
+    printingRef.current = true;
+    window.addEventListener("afterprint", finishPrint, { once: true });
+    window.print();
+  }, [printQueue]);
+
   const fetchCanteenAndOrders = async () => {
     if (!user) return;
 
@@ -93,8 +162,18 @@ const VendorDashboard = () => {
         .select(`
           *,
           order_items (
+            id,
             quantity,
+            rejection_reason,
+            rejection_note,
+            selected_options,
             menu_items (name)
+          ),
+          order_status_events (
+            from_status,
+            to_status,
+            changed_by,
+            created_at
           )
         `)
         .eq("canteen_id", canteenData.id)
@@ -116,6 +195,7 @@ const VendorDashboard = () => {
         }));
         
         setOrders(ordersWithProfiles as any);
+        return ordersWithProfiles as unknown as Order[];
       }
 
       if (ordersError) throw ordersError;
@@ -139,10 +219,45 @@ const VendorDashboard = () => {
           schema: "public",
           table: "orders",
         },
-        (payload) => {
+        async (payload) => {
           console.log("New order:", payload);
-          fetchCanteenAndOrders();
           toast.success("New order received!");
+          const latest = await fetchCanteenAndOrders();
+
+          if (autoPrintRef.current) {
+            const newOrder = latest?.find((order) => order.id === (payload.new as { id: string }).id);
+            if (newOrder) setPrintQueue((queue) => [...queue, newOrder]);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "orders",
+        },
+        (payload) => {
+          const newOrder = payload.new as Omit<Order, "profiles" | "order_items" | "order_status_events">;
+
+          // With RLS on orders, payload.old only carries the id, so compare
+          // against the list on screen. Estimate refreshes, payment marks
+          // and the like are patched in place instead of refetching.
+          const previous = ordersRef.current.find((order) => order.id === newOrder.id);
+          if (previous?.status === newOrder.status) {
+            setOrders((prev) =>
+              prev.map((order) => (order.id === newOrder.id ? { ...order, ...newOrder } : order))
+            );
+            return;
+          }
+
+          if (newOrder.status === "cancelled_by_student") {
+            toast.warning(`Order #${newOrder.pickup_code} was cancelled by the student`, {
+              description: "Stop preparing this order.",
+              duration: 10000,
+            });
+          }
+          fetchCanteenAndOrders();
         }
       )
       .subscribe();
@@ -152,21 +267,21 @@ const VendorDashboard = () => {
     };
   };
 
-  const markOrderReady = async (orderId: string) => {
+  const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
     if (updatingOrderId) return;
     
     setUpdatingOrderId(orderId);
     try {
       const { error } = await supabase
         .from("orders")
-        .update({ status: "ready" })
+        .update({ status })
         .eq("id", orderId);
 
       if (error) {
         console.error("Supabase error:", error);
         throw error;
       }
-      toast.success("Order marked as ready!");
+      toast.success(`Order marked as ${ORDER_STATUS_CONFIG[status].label.toLowerCase()}!`);
       await fetchCanteenAndOrders();
     } catch (error: any) {
       console.error("Error updating order:", error);
@@ -176,30 +291,66 @@ const VendorDashboard = () => {
     }
   };
 
-  const markOrderCompleted = async (orderId: string) => {
+  const markOrderPaid = async (orderId: string) => {
     if (updatingOrderId) return;
-    
+
     setUpdatingOrderId(orderId);
     try {
       const { error } = await supabase
         .from("orders")
-        .update({ status: "completed" })
+        .update({ paid_at: new Date().toISOString() })
         .eq("id", orderId);
 
-      if (error) {
-        console.error("Supabase error:", error);
-        throw error;
-      }
-      toast.success("Order marked as completed!");
+      if (error) throw error;
+      toast.success("Payment recorded");
       await fetchCanteenAndOrders();
-    } catch (error: any) {
-      console.error("Error completing order:", error);
-      toast.error(error.message || "Failed to complete order");
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record payment");
     } finally {
       setUpdatingOrderId(null);
     }
   };
 
+  const toggleOrderingPaused = async (paused: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("canteens")
+        .update({ ordering_paused: paused })
+        .eq("id", canteen.id);
+
+      if (error) throw error;
+      setCanteen({ ...canteen, ordering_paused: paused });
+      toast.success(paused ? "Ordering paused" : "Taking orders again");
+    } catch (error) {
+      console.error("Error updating canteen:", error);
+      toast.error("Failed to update ordering status");
+    }
+  };
+
+  const updatePrintSettings = (changes: Partial<TicketPrintSettings>) => {
+    const next = { ...printSettings, ...changes };
+    setPrintSettings(next);
+    saveTicketPrintSettings(next);
+    autoPrintRef.current = next.autoPrint;
+  };
+
+  const toggleOrderSelected = (orderId: string, selected: boolean) => {
+    setSelectedOrderIds((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(orderId);
+      else next.delete(orderId);
+      return next;
+    });
+  };
+
+  const selectedOrders = orders.filter((order) => selectedOrderIds.has(order.id));
+
+  const printSelectedOrders = () => {
+    setPrintQueue((queue) => [...queue, ...selectedOrders]);
+    setSelectedOrderIds(new Set());
+  };
+
   const filterOrdersBySearch = (ordersList: Order[]) => {
     if (!searchTerm) return ordersList;
     return ordersList.filter((order) => 
@@ -207,9 +358,215 @@ const VendorDashboard = () => {
     );
   };
 
-  const pendingOrders = filterOrdersBySearch(orders.filter((o) => o.status === "pending"));
-  const readyOrders = filterOrdersBySearch(orders.filter((o) => o.status === "ready"));
-  const completedOrders = filterOrdersBySearch(orders.filter((o) => o.status === "completed"));
+  const filterOrdersByNotes = (ordersList: Order[]) =>
+    notesOnly ? ordersList.filter((order) => order.notes) : ordersList;
+
+  const ordersWithStatus = (statuses: OrderStatus[]) =>
+    filterOrdersByNotes(
+      filterOrdersBySearch(orders.filter((o) => (statuses as string[]).includes(o.status)))
+    );
+
+  const renderOrderGrid = (ordersList: Order[]) => {
+    return (
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {ordersList.map((order) => {
+          const nextStep = isOrderStatus(order.status) ? VENDOR_NEXT_STEP[order.status] : undefined;
+          const awaitingPayment = order.prepayment_required && !order.paid_at;
+
+          return (
+            <Card key={order.id} className="hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      className="mt-1"
+                      checked={selectedOrderIds.has(order.id)}
+                      onCheckedChange={(checked) => toggleOrderSelected(order.id, checked === true)}
+                      aria-label={`Select order #${order.pickup_code} for printing`}
+                    />
+                    <div>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {order.profiles.name}
+                        {isActiveStatus(order.status) && (
+                          <span className="text-sm font-mono text-primary">#{order.pickup_code}</span>
+                        )}
+                      </CardTitle>
+                      <CardDescription>₹{order.total_amount.toFixed(2)}</CardDescription>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setPrintQueue((queue) => [...queue, order])}
+                      title="Print kitchen ticket"
+                    >
+                      <Printer className="h-4 w-4" />
+                    </Button>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {order.notes && (
+                  <div className="flex gap-2 rounded-md border border-warning/50 bg-warning/10 p-3 text-sm">
+                    <StickyNote className="h-4 w-4 mt-0.5 shrink-0 text-warning" />
+                    <p className="whitespace-pre-wrap break-words">{order.notes}</p>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  {order.order_items.map((item) => (
+                    <div key={item.id} className="text-sm">
+                      <span className={item.rejection_reason ? "line-through text-muted-foreground" : undefined}>
+                        {item.quantity}x {item.menu_items.name}
+                      </span>
+                      {item.rejection_reason && (
+                        <span className="text-xs text-destructive ml-2">
+                          {describeRejection(item.rejection_reason, item.rejection_note)}
+                        </span>
+                      )}
+                      {item.selected_options.length > 0 && (
+                        <ul className="ml-6 text-xs text-muted-foreground">
+                          {item.selected_options.map((option) => (
+                            <li key={option.option_id}>
+                              {option.group_name}: {option.name}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {order.rejection_reason && (
+                  <p className="text-sm text-destructive">
+                    Rejected: {describeRejection(order.rejection_reason, order.rejection_note)}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(order.created_at).toLocaleString()}
+                </p>
+                {order.pickup_at && (
+                  <p className="text-sm font-medium flex items-center gap-1">
+                    <CalendarClock className="h-4 w-4" />
+                    Pickup at {new Date(order.pickup_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </p>
+                )}
+                {order.handed_over_at && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <PackageCheck className="h-4 w-4" />
+                    Handed over at {new Date(order.handed_over_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </p>
+                )}
+                <OrderTimeline events={order.order_status_events} studentId={order.student_id} />
+                {order.status === "ready" && (
+                  <p className="rounded-md bg-muted p-3 text-center text-sm text-muted-foreground">
+                    Enter or scan the student's pickup code to hand this order over
+                  </p>
+                )}
+                {order.prepayment_required && (
+                  <div
+                    className={cn(
+                      "flex gap-2 rounded-md border p-3 text-sm",
+                      awaitingPayment ? "border-warning/50 bg-warning/10" : "border-success/50 bg-success/10"
+                    )}
+                  >
+                    <Wallet className={cn("h-4 w-4 mt-0.5 shrink-0", awaitingPayment ? "text-warning" : "text-success")} />
+                    <p>
+                      {awaitingPayment
+                        ? "This student has missed pickups before. Take payment before accepting."
+                        : `Paid at ${new Date(order.paid_at as string).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+                    </p>
+                  </div>
+                )}
+                {awaitingPayment && isActiveStatus(order.status) ? (
+                  <Button
+                    className="w-full"
+                    onClick={() => markOrderPaid(order.id)}
+                    disabled={updatingOrderId === order.id}
+                  >
+                    {updatingOrderId === order.id ? "Updating..." : `Mark ₹${order.total_amount.toFixed(2)} as Paid`}
+                  </Button>
+                ) : (
+                  nextStep && (
+                    <Button
+                      className="w-full"
+                      onClick={() => updateOrderStatus(order.id, nextStep.status)}
+                      disabled={updatingOrderId === order.id}
+                    >
+                      {updatingOrderId === order.id ? "Updating..." : nextStep.action}
+                    </Button>
+                  )
+                )}
+                {canTransition(order.status, "rejected_by_vendor") && (
+                  <RejectOrderDialog
+                    orderId={order.id}
+                    pickupCode={order.pickup_code}
+                    items={order.order_items
+                      .filter((item) => !item.rejection_reason)
+                      .map((item) => ({
+                        id: item.id,
+                        quantity: item.quantity,
+                        name: item.selected_options.length > 0
+                          ? `${item.menu_items.name} (${formatSelectedOptions(item.selected_options)})`
+                          : item.menu_items.name,
+                      }))}
+                    onRejected={fetchCanteenAndOrders}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderOrders = (ordersList: Order[], emptyMessage: string, groupBySlot = false) => {
+    if (ordersList.length === 0) {
+      return (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {emptyMessage}
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!groupBySlot) return renderOrderGrid(ordersList);
+
+    return (
+      <div className="space-y-6">
+        {groupOrdersByPickupSlot(ordersList).map((group) => (
+          <section key={group.key} className="space-y-3">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              {group.label}
+              <span className="text-sm font-normal text-muted-foreground">
+                ({group.orders.length})
+              </span>
+            </h3>
+            {renderOrderGrid(group.orders)}
+          </section>
+        ))}
+      </div>
+    );
+  };
+
+  const orderTabs: {
+    value: string;
+    label: string;
+    statuses: OrderStatus[];
+    empty: string;
+    groupBySlot?: boolean;
+  }[] = [
+    { value: "pending", label: "Pending", statuses: ["pending"], empty: "No pending orders", groupBySlot: true },
+    { value: "accepted", label: "Accepted", statuses: ["accepted"], empty: "No accepted orders", groupBySlot: true },
+    { value: "preparing", label: "Preparing", statuses: ["preparing"], empty: "No orders being prepared", groupBySlot: true },
+    { value: "ready", label: "Ready", statuses: ["ready"], empty: "No ready orders" },
+    { value: "completed", label: "Completed", statuses: ["completed"], empty: "No completed orders" },
+    { value: "closed", label: "Cancelled", statuses: CLOSED_ORDER_STATUSES, empty: "No cancelled, rejected or no-show orders" },
+  ];
 
   if (loading || authLoading) {
     return (
@@ -235,8 +592,8 @@ const VendorDashboard = () => {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5">
-      <header className="bg-card border-b sticky top-0 z-10 shadow-sm">
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5 print:bg-none">
+      <header className="bg-card border-b sticky top-0 z-10 shadow-sm print:hidden">
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <div>
             <div className="flex items-center gap-2">
@@ -245,11 +602,37 @@ const VendorDashboard = () => {
             </div>
             <p className="text-sm text-muted-foreground">{canteen.location}</p>
           </div>
-          <div className="flex gap-2">
+          <div className="flex gap-2 items-center">
+            <div className="flex items-center gap-2 mr-2">
+              <Switch
+                id="takingOrders"
+                checked={!canteen.ordering_paused}
+                onCheckedChange={(checked) => toggleOrderingPaused(!checked)}
+              />
+              <Label htmlFor="takingOrders" className="text-sm">
+                {canteen.ordering_paused ? "Ordering paused" : "Taking orders"}
+              </Label>
+            </div>
             <Button onClick={() => navigate("/vendor/menu")}>
               <Plus className="h-4 w-4 mr-2" />
               Manage Menu
             </Button>
+            <Button variant="outline" onClick={() => navigate("/vendor/kitchen")}>
+              <ChefHat className="h-4 w-4 mr-2" />
+              Kitchen
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/vendor/analytics")}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/vendor/reports")}>
+              <FileText className="h-4 w-4 mr-2" />
+              Reports
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/vendor/settings")}>
+              <Settings className="h-4 w-4 mr-2" />
+              Settings
+            </Button>
             <Button variant="outline" onClick={signOut}>
               <LogOut className="h-4 w-4 mr-2" />
               Sign Out
@@ -258,9 +641,9 @@ const VendorDashboard = () => {
         </div>
       </header>
 
-      <main className="container mx-auto px-4 py-8">
-        <div className="mb-6">
-          <div className="relative max-w-md">
+      <main className="container mx-auto px-4 py-8 print:hidden">
+        <div className="mb-6 flex flex-wrap items-center gap-4">
+          <div className="relative max-w-md flex-1">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
               type="text"
@@ -270,164 +653,69 @@ const VendorDashboard = () => {
               className="pl-10"
             />
           </div>
+          <PickupQrScanner
+            canteenId={canteen.id}
+            customerName={(orderId) => orders.find((order) => order.id === orderId)?.profiles.name}
+            onCompleted={fetchCanteenAndOrders}
+          />
+          <CompleteByCodeForm canteenId={canteen.id} onCompleted={fetchCanteenAndOrders} />
+          <div className="flex items-center gap-2">
+            <Switch id="notesOnly" checked={notesOnly} onCheckedChange={setNotesOnly} />
+            <Label htmlFor="notesOnly" className="text-sm">Only orders with notes</Label>
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch
+              id="autoPrint"
+              checked={printSettings.autoPrint}
+              onCheckedChange={(checked) => updatePrintSettings({ autoPrint: checked })}
+            />
+            <Label htmlFor="autoPrint" className="text-sm">Auto-print new orders</Label>
+          </div>
+          <Select
+            value={printSettings.paperWidth}
+            onValueChange={(value) => isTicketPaperWidth(value) && updatePrintSettings({ paperWidth: value })}
+          >
+            <SelectTrigger className="w-28" aria-label="Ticket paper width">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_PAPER_WIDTHS.map((width) => (
+                <SelectItem key={width} value={width}>
+                  {width}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={printSelectedOrders} disabled={selectedOrders.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print Selected ({selectedOrders.length})
+          </Button>
         </div>
 
         <Tabs defaultValue="pending" className="space-y-6">
-          <TabsList>
-            <TabsTrigger value="pending">
-              <Clock className="h-4 w-4 mr-2" />
-              Pending ({pendingOrders.length})
-            </TabsTrigger>
-            <TabsTrigger value="ready">
-              <CheckCircle2 className="h-4 w-4 mr-2" />
-              Ready ({readyOrders.length})
-            </TabsTrigger>
-            <TabsTrigger value="completed">
-              <Package className="h-4 w-4 mr-2" />
-              Completed ({completedOrders.length})
-            </TabsTrigger>
+          <TabsList className="flex-wrap h-auto">
+            {orderTabs.map((tab) => {
+              const Icon = ORDER_STATUS_CONFIG[tab.statuses[0]].icon;
+              return (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  <Icon className="h-4 w-4 mr-2" />
+                  {tab.label} ({ordersWithStatus(tab.statuses).length})
+                </TabsTrigger>
+              );
+            })}
           </TabsList>
 
-          <TabsContent value="pending">
-            {pendingOrders.length === 0 ? (
-              <Card>
-                <CardContent className="py-8 text-center text-muted-foreground">
-                  No pending orders
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {pendingOrders.map((order) => (
-                  <Card key={order.id} className="hover:shadow-lg transition-shadow">
-                    <CardHeader>
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <CardTitle className="text-lg flex items-center gap-2">
-                            {order.profiles.name}
-                            <span className="text-sm font-mono text-primary">#{order.pickup_code}</span>
-                          </CardTitle>
-                          <CardDescription>₹{order.total_amount.toFixed(2)}</CardDescription>
-                        </div>
-                        <Badge variant="secondary">
-                          <Clock className="h-3 w-3 mr-1" />
-                          Pending
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="space-y-2">
-                        {order.order_items.map((item, idx) => (
-                          <div key={idx} className="text-sm">
-                            {item.quantity}x {item.menu_items.name}
-                          </div>
-                        ))}
-                      </div>
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(order.created_at).toLocaleString()}
-                      </p>
-                      <Button
-                        className="w-full"
-                        onClick={() => markOrderReady(order.id)}
-                        disabled={updatingOrderId === order.id}
-                      >
-                        {updatingOrderId === order.id ? "Updating..." : "Mark as Ready"}
-                      </Button>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
-          </TabsContent>
-
-          <TabsContent value="ready">
-            {readyOrders.length === 0 ? (
-              <Card>
-                <CardContent className="py-8 text-center text-muted-foreground">
-                  No ready orders
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {readyOrders.map((order) => (
-                  <Card key={order.id} className="hover:shadow-lg transition-shadow">
-                    <CardHeader>
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <CardTitle className="text-lg flex items-center gap-2">
-                            {order.profiles.name}
-                            <span className="text-sm font-mono text-primary">#{order.pickup_code}</span>
-                          </CardTitle>
-                          <CardDescription>₹{order.total_amount.toFixed(2)}</CardDescription>
-                        </div>
-                        <Badge className="bg-success text-white">
-                          <CheckCircle2 className="h-3 w-3 mr-1" />
-                          Ready
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-2">
-                      {order.order_items.map((item, idx) => (
-                        <div key={idx} className="text-sm">
-                          {item.quantity}x {item.menu_items.name}
-                        </div>
-                      ))}
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(order.created_at).toLocaleString()}
-                      </p>
-                      <Button
-                        className="w-full mt-2"
-                        onClick={() => markOrderCompleted(order.id)}
-                        disabled={updatingOrderId === order.id}
-                      >
-                        {updatingOrderId === order.id ? "Completing..." : "Mark as Completed"}
-                      </Button>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
-          </TabsContent>
-
-          <TabsContent value="completed">
-            {completedOrders.length === 0 ? (
-              <Card>
-                <CardContent className="py-8 text-center text-muted-foreground">
-                  No completed orders
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {completedOrders.map((order) => (
-                  <Card key={order.id} className="hover:shadow-lg transition-shadow">
-                    <CardHeader>
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <CardTitle className="text-lg">{order.profiles.name}</CardTitle>
-                          <CardDescription>₹{order.total_amount.toFixed(2)}</CardDescription>
-                        </div>
-                        <Badge className="bg-success text-white">
-                          <Package className="h-3 w-3 mr-1" />
-                          Completed
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-2">
-                      {order.order_items.map((item, idx) => (
-                        <div key={idx} className="text-sm">
-                          {item.quantity}x {item.menu_items.name}
-                        </div>
-                      ))}
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(order.created_at).toLocaleString()}
-                      </p>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
-          </TabsContent>
+          {orderTabs.map((tab) => (
+            <TabsContent key={tab.value} value={tab.value}>
+              {renderOrders(ordersWithStatus(tab.statuses), tab.empty, tab.groupBySlot)}
+            </TabsContent>
+          ))}
         </Tabs>
       </main>
+
+      {printQueue.length > 0 && (
+        <KitchenTickets orders={printQueue} paperWidth={printSettings.paperWidth} canteenName={canteen.name} />
+      )}
     </div>
   );
 };
@@ -36,3 +36,34 @@ export const showOrderReadyNotification = (orderDetails: {
     requireInteraction: true,
   });
 };
+
+export const showOrderRejectedNotification = (orderDetails: {
+  canteenName: string;
+  reason: string;
+}) => {
+  showNotification("Your Order was Rejected", {
+    body: `${orderDetails.canteenName} couldn't fulfil your order: ${orderDetails.reason}`,
+    tag: "order-rejected",
+    requireInteraction: true,
+  });
+};
+
+export const showOrderItemsRejectedNotification = (orderDetails: {
+  canteenName: string;
+  totalAmount: number;
+}) => {
+  showNotification("Items Removed From Your Order", {
+    body: `${orderDetails.canteenName} removed some items from your order. New total: ₹${orderDetails.totalAmount.toFixed(2)}`,
+    tag: "order-items-rejected",
+  });
+};
+
+export const showOrderNoShowNotification = (orderDetails: {
+  canteenName: string;
+}) => {
+  showNotification("Your Order Was Not Collected", {
+    body: `Your order at ${orderDetails.canteenName} wasn't picked up in time and was marked as a no-show.`,
+    tag: "order-no-show",
+    requireInteraction: true,
+  });
+};
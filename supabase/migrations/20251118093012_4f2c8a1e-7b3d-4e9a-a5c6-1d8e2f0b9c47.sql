@@ -0,0 +1,80 @@
+-- Place an order and its items in a single transaction.
+-- _items is a JSON array of { menu_item_id, quantity } objects; prices are
+-- read from menu_items so the total cannot be supplied by the client.
+-- Errors are raised with a machine-readable code in HINT for the UI.
+CREATE OR REPLACE FUNCTION public.place_order(_canteen_id UUID, _items JSONB)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Merge duplicate lines so each menu item appears once
+  SELECT jsonb_agg(jsonb_build_object('menu_item_id', menu_item_id, 'quantity', quantity))
+  INTO _cart
+  FROM (
+    SELECT i.menu_item_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    GROUP BY i.menu_item_id
+  ) merged;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+    LEFT JOIN menu_items m ON m.id = c.menu_item_id AND m.canteen_id = _canteen_id
+    WHERE m.id IS NULL
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Some items in your cart are not on this menu',
+      HINT = 'unknown_item';
+  END IF;
+
+  SELECT SUM(m.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  INSERT INTO orders (student_id, canteen_id, total_amount, status)
+  VALUES (_student_id, _canteen_id, _total, 'pending')
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price)
+  SELECT _order.id, c.menu_item_id, c.quantity, m.price
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB) TO authenticated;
@@ -0,0 +1,123 @@
+-- Compare a cart against the current menu and return one entry per line
+-- that no longer matches: missing item, item from another canteen,
+-- item switched off by the vendor, or a price different from the one
+-- the student saw.
+CREATE OR REPLACE FUNCTION public.check_cart(_canteen_id UUID, _items JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(change), '[]'::jsonb)
+  FROM (
+    SELECT jsonb_build_object(
+      'menu_item_id', i.menu_item_id,
+      'name', m.name,
+      'reason', CASE
+        WHEN m.id IS NULL THEN 'not_found'
+        WHEN m.canteen_id <> _canteen_id THEN 'wrong_canteen'
+        WHEN NOT m.is_available THEN 'unavailable'
+        ELSE 'price_changed'
+      END,
+      'expected_price', i.price,
+      'current_price', m.price
+    ) AS change
+    FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, price DECIMAL(10,2))
+    LEFT JOIN menu_items m ON m.id = i.menu_item_id
+    WHERE m.id IS NULL
+      OR m.canteen_id <> _canteen_id
+      OR NOT m.is_available
+      OR i.price IS DISTINCT FROM m.price
+  ) changes
+$$;
+
+-- Re-validate the cart against menu_items before placing the order.
+-- _items is now a JSON array of { menu_item_id, quantity, price } where
+-- price is what the student was shown. Any mismatch aborts with
+-- HINT 'cart_changed' and the per-line diff as JSON in DETAIL.
+CREATE OR REPLACE FUNCTION public.place_order(_canteen_id UUID, _items JSONB)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _changes JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Lock the priced rows so a concurrent menu edit cannot slip in
+  -- between validation and insert
+  PERFORM 1 FROM menu_items
+  WHERE id IN (SELECT menu_item_id FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID))
+  FOR SHARE;
+
+  _changes := public.check_cart(_canteen_id, _items);
+
+  IF jsonb_array_length(_changes) > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart has changed since you added these items',
+      DETAIL = _changes::TEXT,
+      HINT = 'cart_changed';
+  END IF;
+
+  -- Merge duplicate lines so each menu item appears once
+  SELECT jsonb_agg(jsonb_build_object('menu_item_id', menu_item_id, 'quantity', quantity))
+  INTO _cart
+  FROM (
+    SELECT i.menu_item_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    GROUP BY i.menu_item_id
+  ) merged;
+
+  SELECT SUM(m.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  INSERT INTO orders (student_id, canteen_id, total_amount, status)
+  VALUES (_student_id, _canteen_id, _total, 'pending')
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price)
+  SELECT _order.id, c.menu_item_id, c.quantity, m.price
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  RETURN _order;
+END;
+$$;
+
+-- place_order is now the only way to create orders, so clients can no
+-- longer insert their own totals and line prices
+DROP POLICY "Students can create orders" ON public.orders;
+DROP POLICY "Students can create order items" ON public.order_items;
@@ -0,0 +1,85 @@
+-- Allow the full order lifecycle
+ALTER TABLE orders DROP CONSTRAINT orders_status_check;
+
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+CHECK (status IN (
+  'pending',
+  'accepted',
+  'preparing',
+  'ready',
+  'completed',
+  'cancelled_by_student',
+  'rejected_by_vendor',
+  'no_show'
+));
+
+-- Allowed status transitions. Keep in sync with src/lib/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (_from, _to) IN (
+    ('pending', 'accepted'),
+    ('pending', 'cancelled_by_student'),
+    ('pending', 'rejected_by_vendor'),
+    ('accepted', 'preparing'),
+    ('accepted', 'rejected_by_vendor'),
+    ('preparing', 'ready'),
+    ('preparing', 'rejected_by_vendor'),
+    ('ready', 'completed'),
+    ('ready', 'no_show')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format('Cannot move an order from %s to %s', OLD.status, NEW.status),
+      HINT = 'invalid_transition';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- Pickup codes must stay unique across every active status
+CREATE OR REPLACE FUNCTION generate_pickup_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code TEXT;
+  code_exists BOOLEAN;
+BEGIN
+  LOOP
+    -- Generate a random 6-digit code
+    code := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+    
+    -- Check if this code already exists for active orders
+    SELECT EXISTS (
+      SELECT 1 FROM orders 
+      WHERE pickup_code = code 
+      AND status IN ('pending', 'accepted', 'preparing', 'ready')
+    ) INTO code_exists;
+    
+    -- Exit loop if code is unique
+    EXIT WHEN NOT code_exists;
+  END LOOP;
+  
+  RETURN code;
+END;
+$$;
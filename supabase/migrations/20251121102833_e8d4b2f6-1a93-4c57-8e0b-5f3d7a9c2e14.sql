@@ -0,0 +1,56 @@
+-- Audit trail of every order status change
+CREATE TABLE public.order_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_events_order_id_idx
+  ON public.order_status_events (order_id, created_at);
+
+ALTER TABLE public.order_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by the trigger below, so there are no
+-- insert/update policies
+CREATE POLICY "Users can view status events for own orders"
+  ON public.order_status_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE id = order_status_events.order_id
+      AND (student_id = auth.uid() OR canteen_id IN (
+        SELECT id FROM public.canteens WHERE vendor_id = auth.uid()
+      ))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.log_order_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_status_events (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO order_status_events (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_status_event
+AFTER INSERT OR UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.log_order_status_event();
+
+-- Existing orders only know when they were placed
+INSERT INTO public.order_status_events (order_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'pending', student_id, created_at
+FROM public.orders;
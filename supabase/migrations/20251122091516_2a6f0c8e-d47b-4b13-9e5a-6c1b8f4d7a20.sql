@@ -0,0 +1,55 @@
+-- Optional per-canteen limit on how long after placing an order a student
+-- may cancel it. NULL means "until the vendor accepts the order".
+ALTER TABLE public.canteens ADD COLUMN cancellation_window_minutes INTEGER
+  CHECK (cancellation_window_minutes IS NULL OR cancellation_window_minutes >= 0);
+
+-- Let a student cancel their own order while it is still pending and,
+-- if the canteen sets one, within the cancellation window. Students have
+-- no UPDATE policy on orders, so this is the only way they can change one.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _window INTEGER;
+BEGIN
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _order_id AND student_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Order not found',
+      HINT = 'order_not_found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This order has already been accepted by the canteen and can no longer be cancelled',
+      HINT = 'not_cancellable';
+  END IF;
+
+  SELECT cancellation_window_minutes INTO _window
+  FROM canteens
+  WHERE id = _order.canteen_id;
+
+  IF _window IS NOT NULL AND now() > _order.created_at + make_interval(mins => _window) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format('Orders can only be cancelled within %s minutes of placing them', _window),
+      HINT = 'cancel_window_expired';
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled_by_student'
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO authenticated;
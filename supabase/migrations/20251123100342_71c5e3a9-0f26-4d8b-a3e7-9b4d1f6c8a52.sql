@@ -0,0 +1,138 @@
+-- Why a vendor rejected an order or some of its lines
+ALTER TABLE public.orders
+  ADD COLUMN rejection_reason TEXT
+    CHECK (rejection_reason IN ('out_of_stock', 'kitchen_closing', 'other')),
+  ADD COLUMN rejection_note TEXT;
+
+ALTER TABLE public.order_items
+  ADD COLUMN rejection_reason TEXT
+    CHECK (rejection_reason IN ('out_of_stock', 'kitchen_closing', 'other')),
+  ADD COLUMN rejection_note TEXT;
+
+-- Shared validation for the reject RPCs: the caller must own the order's
+-- canteen, the reason must be known and "other" needs a note
+CREATE OR REPLACE FUNCTION public.lock_order_for_rejection(_order_id UUID, _reason TEXT, _note TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT o.* INTO _order
+  FROM orders o
+  JOIN canteens c ON c.id = o.canteen_id
+  WHERE o.id = _order_id AND c.vendor_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Order not found',
+      HINT = 'order_not_found';
+  END IF;
+
+  IF _reason IS NULL OR _reason NOT IN ('out_of_stock', 'kitchen_closing', 'other') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Please choose a rejection reason',
+      HINT = 'invalid_reason';
+  END IF;
+
+  IF _reason = 'other' AND COALESCE(btrim(_note), '') = '' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Please describe why the order is being rejected',
+      HINT = 'note_required';
+  END IF;
+
+  IF NOT public.order_status_transition_allowed(_order.status, 'rejected_by_vendor') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This order can no longer be rejected',
+      HINT = 'not_rejectable';
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_order_for_rejection(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Reject a whole order
+CREATE OR REPLACE FUNCTION public.reject_order(_order_id UUID, _reason TEXT, _note TEXT DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  PERFORM public.lock_order_for_rejection(_order_id, _reason, _note);
+
+  UPDATE orders
+  SET status = 'rejected_by_vendor',
+      rejection_reason = _reason,
+      rejection_note = NULLIF(btrim(_note), '')
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$;
+
+-- Reject individual lines. The order total is recalculated from the
+-- remaining lines, and rejecting every line rejects the whole order.
+CREATE OR REPLACE FUNCTION public.reject_order_items(
+  _order_id UUID,
+  _order_item_ids UUID[],
+  _reason TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  PERFORM public.lock_order_for_rejection(_order_id, _reason, _note);
+
+  IF _order_item_ids IS NULL OR cardinality(_order_item_ids) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Select at least one item to reject',
+      HINT = 'no_items_selected';
+  END IF;
+
+  UPDATE order_items
+  SET rejection_reason = _reason,
+      rejection_note = NULLIF(btrim(_note), '')
+  WHERE order_id = _order_id
+    AND id = ANY(_order_item_ids)
+    AND rejection_reason IS NULL;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = _order_id AND rejection_reason IS NULL
+  ) THEN
+    UPDATE orders
+    SET status = 'rejected_by_vendor',
+        rejection_reason = _reason,
+        rejection_note = NULLIF(btrim(_note), '')
+    WHERE id = _order_id
+    RETURNING * INTO _order;
+  ELSE
+    UPDATE orders
+    SET total_amount = (
+      SELECT SUM(price * quantity) FROM order_items
+      WHERE order_id = _order_id AND rejection_reason IS NULL
+    )
+    WHERE id = _order_id
+    RETURNING * INTO _order;
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reject_order(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_order_items(UUID, UUID[], TEXT, TEXT) TO authenticated;
@@ -0,0 +1,249 @@
+-- Local time zone of each canteen, used to turn daily slot times into
+-- timestamps
+ALTER TABLE public.canteens ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- Recurring daily pickup windows with a maximum number of orders each
+CREATE TABLE public.pickup_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time),
+  UNIQUE (canteen_id, start_time)
+);
+
+ALTER TABLE public.pickup_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view pickup slots"
+  ON public.pickup_slots FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can create pickup slots for own canteens"
+  ON public.pickup_slots FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = pickup_slots.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can update pickup slots for own canteens"
+  ON public.pickup_slots FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = pickup_slots.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can delete pickup slots for own canteens"
+  ON public.pickup_slots FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = pickup_slots.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+-- NULL pickup_at means "as soon as possible"
+ALTER TABLE public.orders
+  ADD COLUMN pickup_slot_id UUID REFERENCES public.pickup_slots(id) ON DELETE SET NULL,
+  ADD COLUMN pickup_at TIMESTAMPTZ;
+
+CREATE INDEX orders_pickup_slot_idx ON public.orders (pickup_slot_id, pickup_at);
+
+-- Today's occurrence of a slot in the canteen's time zone
+CREATE OR REPLACE FUNCTION public.pickup_slot_start(_start_time TIME, _timezone TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ((now() AT TIME ZONE _timezone)::DATE + _start_time) AT TIME ZONE _timezone
+$$;
+
+-- Today's remaining slots for a canteen with how many orders each holds
+CREATE OR REPLACE FUNCTION public.get_pickup_slots(_canteen_id UUID)
+RETURNS TABLE (
+  slot_id UUID,
+  pickup_at TIMESTAMPTZ,
+  end_at TIMESTAMPTZ,
+  capacity INTEGER,
+  booked INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    public.pickup_slot_start(s.start_time, c.timezone),
+    public.pickup_slot_start(s.end_time, c.timezone),
+    s.capacity,
+    (
+      SELECT COUNT(*)::INTEGER FROM orders o
+      WHERE o.pickup_slot_id = s.id
+        AND o.pickup_at = public.pickup_slot_start(s.start_time, c.timezone)
+        AND o.status NOT IN ('cancelled_by_student', 'rejected_by_vendor')
+    )
+  FROM pickup_slots s
+  JOIN canteens c ON c.id = s.canteen_id
+  WHERE s.canteen_id = _canteen_id
+    AND s.is_active
+    AND public.pickup_slot_start(s.start_time, c.timezone) > now()
+  ORDER BY s.start_time
+$$;
+
+-- Resolve and validate the requested slot when an order is created
+CREATE OR REPLACE FUNCTION public.assign_pickup_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot public.pickup_slots;
+  _timezone TEXT;
+  _booked INTEGER;
+BEGIN
+  IF NEW.pickup_slot_id IS NULL THEN
+    NEW.pickup_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Lock the slot so concurrent orders cannot both take the last place
+  SELECT * INTO _slot
+  FROM pickup_slots
+  WHERE id = NEW.pickup_slot_id AND canteen_id = NEW.canteen_id AND is_active
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'That pickup time is not offered by this canteen',
+      HINT = 'slot_not_found';
+  END IF;
+
+  SELECT timezone INTO _timezone FROM canteens WHERE id = NEW.canteen_id;
+  NEW.pickup_at := public.pickup_slot_start(_slot.start_time, _timezone);
+
+  IF NEW.pickup_at <= now() THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'That pickup time has already passed',
+      HINT = 'slot_passed';
+  END IF;
+
+  SELECT COUNT(*) INTO _booked
+  FROM orders
+  WHERE pickup_slot_id = _slot.id
+    AND pickup_at = NEW.pickup_at
+    AND status NOT IN ('cancelled_by_student', 'rejected_by_vendor');
+
+  IF _booked >= _slot.capacity THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'That pickup time is fully booked, please choose another',
+      HINT = 'slot_full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_pickup_slot
+BEFORE INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_pickup_slot();
+
+-- place_order gains an optional pickup slot
+DROP FUNCTION public.place_order(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _canteen_id UUID,
+  _items JSONB,
+  _pickup_slot_id UUID DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _changes JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Lock the priced rows so a concurrent menu edit cannot slip in
+  -- between validation and insert
+  PERFORM 1 FROM menu_items
+  WHERE id IN (SELECT menu_item_id FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID))
+  FOR SHARE;
+
+  _changes := public.check_cart(_canteen_id, _items);
+
+  IF jsonb_array_length(_changes) > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart has changed since you added these items',
+      DETAIL = _changes::TEXT,
+      HINT = 'cart_changed';
+  END IF;
+
+  -- Merge duplicate lines so each menu item appears once
+  SELECT jsonb_agg(jsonb_build_object('menu_item_id', menu_item_id, 'quantity', quantity))
+  INTO _cart
+  FROM (
+    SELECT i.menu_item_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    GROUP BY i.menu_item_id
+  ) merged;
+
+  SELECT SUM(m.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  -- pickup_at is filled in by the assign_pickup_slot trigger
+  INSERT INTO orders (student_id, canteen_id, total_amount, status, pickup_slot_id)
+  VALUES (_student_id, _canteen_id, _total, 'pending', _pickup_slot_id)
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price)
+  SELECT _order.id, c.menu_item_id, c.quantity, m.price
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID) TO authenticated;
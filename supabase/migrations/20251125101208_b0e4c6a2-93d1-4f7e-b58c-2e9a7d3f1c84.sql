@@ -0,0 +1,187 @@
+-- Manual switch for vendors to stop taking orders, e.g. during a rush
+ALTER TABLE public.canteens ADD COLUMN ordering_paused BOOLEAN NOT NULL DEFAULT false;
+
+-- Weekly opening hours. day_of_week follows EXTRACT(DOW): 0 = Sunday.
+-- A canteen without any rows is treated as open all day.
+CREATE TABLE public.canteen_opening_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (closes_at > opens_at)
+);
+
+-- Holidays and one-off days. NULL hours mean closed all day, otherwise
+-- the given hours replace the weekly hours for that date.
+CREATE TABLE public.canteen_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  opens_at TIME,
+  closes_at TIME,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (canteen_id, date),
+  CHECK ((opens_at IS NULL) = (closes_at IS NULL)),
+  CHECK (closes_at IS NULL OR closes_at > opens_at)
+);
+
+ALTER TABLE public.canteen_opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.canteen_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view opening hours"
+  ON public.canteen_opening_hours FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage opening hours for own canteens"
+  ON public.canteen_opening_hours FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = canteen_opening_hours.canteen_id AND vendor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = canteen_opening_hours.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Everyone can view canteen exceptions"
+  ON public.canteen_exceptions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage exceptions for own canteens"
+  ON public.canteen_exceptions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = canteen_exceptions.canteen_id AND vendor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = canteen_exceptions.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+-- Opening hours that apply on a given local date
+CREATE OR REPLACE FUNCTION public.canteen_hours_on(_canteen_id UUID, _date DATE)
+RETURNS TABLE (opens_at TIME, closes_at TIME)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.opens_at, e.closes_at
+  FROM canteen_exceptions e
+  WHERE e.canteen_id = _canteen_id AND e.date = _date AND e.opens_at IS NOT NULL
+  UNION ALL
+  SELECT h.opens_at, h.closes_at
+  FROM canteen_opening_hours h
+  WHERE h.canteen_id = _canteen_id
+    AND h.day_of_week = EXTRACT(DOW FROM _date)
+    AND NOT EXISTS (
+      SELECT 1 FROM canteen_exceptions e
+      WHERE e.canteen_id = _canteen_id AND e.date = _date
+    )
+  UNION ALL
+  SELECT TIME '00:00', TIME '24:00'
+  WHERE NOT EXISTS (
+      SELECT 1 FROM canteen_opening_hours h WHERE h.canteen_id = _canteen_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM canteen_exceptions e
+      WHERE e.canteen_id = _canteen_id AND e.date = _date
+    )
+$$;
+
+-- Concrete opening windows from today through the next _days days
+CREATE OR REPLACE FUNCTION public.canteen_windows(_canteen_id UUID, _days INTEGER DEFAULT 7)
+RETURNS TABLE (opens_at TIMESTAMPTZ, closes_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (d.day::DATE + h.opens_at) AT TIME ZONE c.timezone,
+    (d.day::DATE + h.closes_at) AT TIME ZONE c.timezone
+  FROM canteens c
+  CROSS JOIN LATERAL generate_series(
+    (now() AT TIME ZONE c.timezone)::DATE,
+    (now() AT TIME ZONE c.timezone)::DATE + _days,
+    INTERVAL '1 day'
+  ) AS d(day)
+  CROSS JOIN LATERAL public.canteen_hours_on(c.id, d.day::DATE) AS h
+  WHERE c.id = _canteen_id
+$$;
+
+-- Whether each canteen is taking orders right now, and when that changes.
+-- Pass _canteen_id to compute it for one canteen only
+CREATE OR REPLACE FUNCTION public.get_canteen_statuses(_canteen_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  canteen_id UUID,
+  is_open BOOLEAN,
+  ordering_paused BOOLEAN,
+  closes_at TIMESTAMPTZ,
+  next_opens_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    NOT c.ordering_paused AND w.closes_at IS NOT NULL,
+    c.ordering_paused,
+    w.closes_at,
+    (
+      SELECT MIN(n.opens_at) FROM public.canteen_windows(c.id) n
+      WHERE n.opens_at > now()
+    )
+  FROM canteens c
+  LEFT JOIN LATERAL (
+    SELECT MAX(cw.closes_at) AS closes_at
+    FROM public.canteen_windows(c.id) cw
+    WHERE now() >= cw.opens_at AND now() < cw.closes_at
+  ) w ON true
+  WHERE _canteen_id IS NULL OR c.id = _canteen_id
+$$;
+
+-- Refuse orders for canteens that are closed or paused
+CREATE OR REPLACE FUNCTION public.check_canteen_open()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status RECORD;
+BEGIN
+  SELECT * INTO _status
+  FROM public.get_canteen_statuses(NEW.canteen_id) s;
+
+  IF _status.ordering_paused THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen has paused ordering for now',
+      HINT = 'ordering_paused';
+  END IF;
+
+  IF NOT _status.is_open THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen is closed right now',
+      HINT = 'canteen_closed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_canteen_open
+BEFORE INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.check_canteen_open();
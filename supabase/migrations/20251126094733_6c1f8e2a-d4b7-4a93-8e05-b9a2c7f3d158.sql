@@ -0,0 +1,150 @@
+-- Kitchen capacity limits for ASAP orders. NULL means no limit.
+-- Pre-orders for a pickup slot are limited by the slot capacity instead.
+ALTER TABLE public.canteens
+  ADD COLUMN max_active_orders INTEGER CHECK (max_active_orders > 0),
+  ADD COLUMN max_orders_per_10_minutes INTEGER CHECK (max_orders_per_10_minutes > 0);
+
+-- Average minutes from placing an ASAP order to it being ready, over the
+-- canteen's last 50 ready orders. Falls back to 10 without any history.
+CREATE OR REPLACE FUNCTION public.canteen_prep_minutes(_canteen_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(AVG(d.minutes), 10)
+  FROM (
+    SELECT EXTRACT(EPOCH FROM (e.created_at - o.created_at)) / 60 AS minutes
+    FROM order_status_events e
+    JOIN orders o ON o.id = e.order_id
+    WHERE o.canteen_id = _canteen_id
+      AND o.pickup_slot_id IS NULL
+      AND e.to_status = 'ready'
+    ORDER BY e.created_at DESC
+    LIMIT 50
+  ) d
+$$;
+
+-- Current ASAP queue of a canteen and, when it is at capacity, roughly
+-- how many minutes until a new order would be accepted
+CREATE OR REPLACE FUNCTION public.get_kitchen_load(_canteen_id UUID)
+RETURNS TABLE (
+  queue_length INTEGER,
+  recent_orders INTEGER,
+  at_capacity BOOLEAN,
+  wait_minutes INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _canteen public.canteens;
+  _active_wait NUMERIC := 0;
+  _rate_wait NUMERIC := 0;
+BEGIN
+  SELECT * INTO _canteen FROM canteens WHERE id = _canteen_id;
+
+  SELECT COUNT(*) INTO queue_length
+  FROM orders o
+  WHERE o.canteen_id = _canteen_id
+    AND o.pickup_slot_id IS NULL
+    AND o.status IN ('pending', 'accepted', 'preparing');
+
+  SELECT COUNT(*) INTO recent_orders
+  FROM orders o
+  WHERE o.canteen_id = _canteen_id
+    AND o.pickup_slot_id IS NULL
+    AND o.created_at > now() - interval '10 minutes'
+    AND o.status NOT IN ('cancelled_by_student', 'rejected_by_vendor');
+
+  -- A place frees up once the oldest order over the limit is expected to be ready
+  IF queue_length >= _canteen.max_active_orders THEN
+    SELECT EXTRACT(EPOCH FROM (
+      q.created_at + public.canteen_prep_minutes(_canteen_id) * interval '1 minute' - now()
+    )) / 60
+    INTO _active_wait
+    FROM (
+      SELECT o.created_at
+      FROM orders o
+      WHERE o.canteen_id = _canteen_id
+        AND o.pickup_slot_id IS NULL
+        AND o.status IN ('pending', 'accepted', 'preparing')
+      ORDER BY o.created_at
+      OFFSET queue_length - _canteen.max_active_orders
+      LIMIT 1
+    ) q;
+  END IF;
+
+  -- ...or once the oldest order over the rate limit leaves the 10 minute window
+  IF recent_orders >= _canteen.max_orders_per_10_minutes THEN
+    SELECT EXTRACT(EPOCH FROM (q.created_at + interval '10 minutes' - now())) / 60
+    INTO _rate_wait
+    FROM (
+      SELECT o.created_at
+      FROM orders o
+      WHERE o.canteen_id = _canteen_id
+        AND o.pickup_slot_id IS NULL
+        AND o.created_at > now() - interval '10 minutes'
+        AND o.status NOT IN ('cancelled_by_student', 'rejected_by_vendor')
+      ORDER BY o.created_at
+      OFFSET recent_orders - _canteen.max_orders_per_10_minutes
+      LIMIT 1
+    ) q;
+  END IF;
+
+  at_capacity := COALESCE(queue_length >= _canteen.max_active_orders, false)
+    OR COALESCE(recent_orders >= _canteen.max_orders_per_10_minutes, false);
+  wait_minutes := CASE
+    WHEN at_capacity THEN GREATEST(CEIL(GREATEST(_active_wait, _rate_wait)), 1)
+    ELSE 0
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Refuse ASAP orders while the kitchen is at capacity
+CREATE OR REPLACE FUNCTION public.check_kitchen_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _load RECORD;
+BEGIN
+  IF NEW.pickup_slot_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the canteen so concurrent orders cannot both take the last place
+  PERFORM 1 FROM canteens
+  WHERE id = NEW.canteen_id
+    AND (max_active_orders IS NOT NULL OR max_orders_per_10_minutes IS NOT NULL)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _load FROM public.get_kitchen_load(NEW.canteen_id);
+
+  IF _load.at_capacity THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format('Kitchen busy, try in %s minutes', _load.wait_minutes),
+      HINT = 'kitchen_busy';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_kitchen_capacity
+BEFORE INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.check_kitchen_capacity();
+
+GRANT EXECUTE ON FUNCTION public.get_kitchen_load(UUID) TO authenticated;
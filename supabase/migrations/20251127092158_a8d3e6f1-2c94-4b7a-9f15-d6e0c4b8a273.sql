@@ -0,0 +1,224 @@
+-- Estimated ready time, computed when the order is placed and refreshed
+-- as the queue ahead of it drains. Slot orders are due at pickup_at.
+ALTER TABLE public.orders
+  ADD COLUMN estimated_prep_minutes INTEGER,
+  ADD COLUMN estimated_ready_at TIMESTAMPTZ;
+
+-- Average pending -> ready minutes of recent ASAP orders containing the
+-- item, or NULL while there are fewer than 3 of them
+CREATE OR REPLACE FUNCTION public.menu_item_prep_minutes(_menu_item_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN COUNT(*) >= 3 THEN AVG(d.minutes) END
+  FROM (
+    SELECT EXTRACT(EPOCH FROM (e.created_at - o.created_at)) / 60 AS minutes
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN order_status_events e ON e.order_id = o.id AND e.to_status = 'ready'
+    WHERE oi.menu_item_id = _menu_item_id
+      AND oi.rejection_reason IS NULL
+      AND o.pickup_slot_id IS NULL
+    ORDER BY e.created_at DESC
+    LIMIT 50
+  ) d
+$$;
+
+-- An order takes as long as its slowest item, or the canteen average
+-- when none of its items have enough history
+CREATE OR REPLACE FUNCTION public.order_prep_minutes(_order_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CEIL(COALESCE(
+    (
+      SELECT MAX(public.menu_item_prep_minutes(oi.menu_item_id))
+      FROM order_items oi
+      WHERE oi.order_id = o.id AND oi.rejection_reason IS NULL
+    ),
+    public.canteen_prep_minutes(o.canteen_id)
+  ))::INTEGER
+  FROM orders o
+  WHERE o.id = _order_id
+$$;
+
+-- Typical minutes between two orders becoming ready while the kitchen is
+-- busy, i.e. how quickly it works through a queue. Falls back to 3.
+CREATE OR REPLACE FUNCTION public.canteen_service_minutes(_canteen_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(AVG(g.minutes), 3)
+  FROM (
+    SELECT EXTRACT(EPOCH FROM (
+      e.created_at - LAG(e.created_at) OVER (ORDER BY e.created_at)
+    )) / 60 AS minutes
+    FROM order_status_events e
+    JOIN orders o ON o.id = e.order_id
+    WHERE o.canteen_id = _canteen_id AND e.to_status = 'ready'
+    ORDER BY e.created_at DESC
+    LIMIT 50
+  ) g
+  WHERE g.minutes < 15
+$$;
+
+-- Re-estimate ASAP orders still in the kitchen queue. An order is ready no
+-- earlier than its own prep time after placing, and no earlier than the
+-- kitchen can work through the orders ahead of it.
+CREATE OR REPLACE FUNCTION public.refresh_ready_estimates(_canteen_id UUID, _order_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH service AS (
+    SELECT public.canteen_service_minutes(_canteen_id) AS minutes
+  ),
+  queue AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY created_at) AS position
+    FROM orders
+    WHERE canteen_id = _canteen_id
+      AND pickup_slot_id IS NULL
+      AND status IN ('pending', 'accepted', 'preparing')
+  )
+  UPDATE orders o
+  SET estimated_ready_at = GREATEST(
+    o.created_at + COALESCE(o.estimated_prep_minutes, 0) * interval '1 minute',
+    now() + q.position * service.minutes * interval '1 minute'
+  )
+  FROM queue q, service
+  WHERE o.id = q.id
+    AND (_order_id IS NULL OR o.id = _order_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_ready_estimates(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Whenever an ASAP order leaves the kitchen queue, the orders behind it move up
+CREATE OR REPLACE FUNCTION public.refresh_ready_estimates_on_drain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pickup_slot_id IS NULL
+    AND OLD.status IN ('pending', 'accepted', 'preparing')
+    AND NEW.status NOT IN ('pending', 'accepted', 'preparing') THEN
+    PERFORM public.refresh_ready_estimates(NEW.canteen_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_ready_estimates
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_ready_estimates_on_drain();
+
+-- place_order estimates the ready time once the order items exist
+CREATE OR REPLACE FUNCTION public.place_order(
+  _canteen_id UUID,
+  _items JSONB,
+  _pickup_slot_id UUID DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _changes JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Lock the priced rows so a concurrent menu edit cannot slip in
+  -- between validation and insert
+  PERFORM 1 FROM menu_items
+  WHERE id IN (SELECT menu_item_id FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID))
+  FOR SHARE;
+
+  _changes := public.check_cart(_canteen_id, _items);
+
+  IF jsonb_array_length(_changes) > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart has changed since you added these items',
+      DETAIL = _changes::TEXT,
+      HINT = 'cart_changed';
+  END IF;
+
+  -- Merge duplicate lines so each menu item appears once
+  SELECT jsonb_agg(jsonb_build_object('menu_item_id', menu_item_id, 'quantity', quantity))
+  INTO _cart
+  FROM (
+    SELECT i.menu_item_id, SUM(i.quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    GROUP BY i.menu_item_id
+  ) merged;
+
+  SELECT SUM(m.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  -- pickup_at is filled in by the assign_pickup_slot trigger
+  INSERT INTO orders (student_id, canteen_id, total_amount, status, pickup_slot_id)
+  VALUES (_student_id, _canteen_id, _total, 'pending', _pickup_slot_id)
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price)
+  SELECT _order.id, c.menu_item_id, c.quantity, m.price
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+  JOIN menu_items m ON m.id = c.menu_item_id;
+
+  UPDATE orders
+  SET estimated_prep_minutes = public.order_prep_minutes(id),
+      estimated_ready_at = pickup_at
+  WHERE id = _order.id;
+
+  PERFORM public.refresh_ready_estimates(_canteen_id, _order.id);
+
+  SELECT * INTO _order FROM orders WHERE id = _order.id;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID) TO authenticated;
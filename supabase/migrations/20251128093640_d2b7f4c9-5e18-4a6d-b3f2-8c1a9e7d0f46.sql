@@ -0,0 +1,87 @@
+-- Vendor-defined menu sections, shown in sort_order
+CREATE TABLE public.menu_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (canteen_id, name)
+);
+
+ALTER TABLE public.menu_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view menu categories"
+  ON public.menu_categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can create menu categories for own canteens"
+  ON public.menu_categories FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = menu_categories.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can update menu categories for own canteens"
+  ON public.menu_categories FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = menu_categories.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can delete menu categories for own canteens"
+  ON public.menu_categories FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id = menu_categories.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+-- Items without a category are listed after all categories.
+-- sort_order is relative to the other items in the same category.
+ALTER TABLE public.menu_items
+  ADD COLUMN category_id UUID REFERENCES public.menu_categories(id) ON DELETE SET NULL,
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX menu_items_category_id_idx ON public.menu_items (category_id, sort_order);
+
+-- Save a new category order. Runs as the caller, so RLS limits it to
+-- the vendor's own categories.
+CREATE OR REPLACE FUNCTION public.reorder_menu_categories(_category_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE menu_categories c
+  SET sort_order = o.position
+  FROM unnest(_category_ids) WITH ORDINALITY AS o(id, position)
+  WHERE c.id = o.id
+$$;
+
+-- Save the item order of one category (NULL for uncategorised items),
+-- moving any listed item from another category into it
+CREATE OR REPLACE FUNCTION public.reorder_menu_items(_category_id UUID, _item_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE menu_items m
+  SET category_id = _category_id,
+      sort_order = o.position
+  FROM unnest(_item_ids) WITH ORDINALITY AS o(id, position)
+  WHERE m.id = o.id
+    AND (
+      _category_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM menu_categories c
+        WHERE c.id = _category_id AND c.canteen_id = m.canteen_id
+      )
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reorder_menu_categories(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reorder_menu_items(UUID, UUID[]) TO authenticated;
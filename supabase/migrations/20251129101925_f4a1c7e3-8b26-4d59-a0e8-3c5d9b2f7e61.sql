@@ -0,0 +1,295 @@
+-- Option groups on menu items, e.g. "Spice level" or "Extras".
+-- A group with max_select = 1 is a single choice; NULL means no maximum.
+-- A group with min_select > 0 is required.
+CREATE TABLE public.menu_option_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  min_select INTEGER NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select INTEGER CHECK (max_select >= 1),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (max_select IS NULL OR max_select >= min_select)
+);
+
+CREATE TABLE public.menu_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.menu_option_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10,2) NOT NULL DEFAULT 0,
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.menu_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view menu option groups"
+  ON public.menu_option_groups FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage option groups for own menu items"
+  ON public.menu_option_groups FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.menu_items m
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE m.id = menu_option_groups.menu_item_id AND c.vendor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.menu_items m
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE m.id = menu_option_groups.menu_item_id AND c.vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Everyone can view menu options"
+  ON public.menu_options FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage options for own menu items"
+  ON public.menu_options FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.menu_option_groups g
+      JOIN public.menu_items m ON m.id = g.menu_item_id
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE g.id = menu_options.group_id AND c.vendor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.menu_option_groups g
+      JOIN public.menu_items m ON m.id = g.menu_item_id
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE g.id = menu_options.group_id AND c.vendor_id = auth.uid()
+    )
+  );
+
+-- Snapshot of the options picked for the line, so later menu edits do not
+-- change past orders: [{ option_id, group_name, name, price_delta }].
+-- order_items.price is the unit price including the deltas.
+ALTER TABLE public.order_items
+  ADD COLUMN selected_options JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Resolve the options picked for one cart line into that snapshot, or
+-- NULL when the selection is no longer valid: an option that is gone,
+-- switched off or not offered for the item, or a group whose min/max is
+-- not met
+CREATE OR REPLACE FUNCTION public.resolve_cart_options(_menu_item_id UUID, _option_ids UUID[])
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH picked AS (
+    SELECT o.id, o.name, o.price_delta, o.sort_order, g.id AS group_id, g.name AS group_name,
+      g.sort_order AS group_sort_order
+    FROM menu_options o
+    JOIN menu_option_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_option_ids)
+      AND g.menu_item_id = _menu_item_id
+      AND o.is_available
+  ),
+  group_counts AS (
+    SELECT g.min_select, g.max_select, COUNT(p.id) AS picked
+    FROM menu_option_groups g
+    LEFT JOIN picked p ON p.group_id = g.id
+    WHERE g.menu_item_id = _menu_item_id
+    GROUP BY g.id
+  )
+  SELECT CASE
+    WHEN (SELECT COUNT(*) FROM picked)
+      <> (SELECT COUNT(DISTINCT x) FROM unnest(_option_ids) x) THEN NULL
+    WHEN EXISTS (
+      SELECT 1 FROM group_counts
+      WHERE picked < min_select OR picked > COALESCE(max_select, picked)
+    ) THEN NULL
+    ELSE COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'option_id', id,
+            'group_name', group_name,
+            'name', name,
+            'price_delta', price_delta
+          )
+          ORDER BY group_sort_order, group_id, sort_order, name
+        )
+        FROM picked
+      ),
+      '[]'::jsonb
+    )
+  END
+$$;
+
+-- Sum of the price deltas in an options snapshot
+CREATE OR REPLACE FUNCTION public.options_price_delta(_options JSONB)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM((o->>'price_delta')::DECIMAL(10,2)), 0)
+  FROM jsonb_array_elements(COALESCE(_options, '[]'::jsonb)) o
+$$;
+
+-- check_cart also validates option_ids on each line and compares the
+-- price including option deltas. Changes carry the line's option_ids so
+-- the client can tell two lines of the same item apart.
+CREATE OR REPLACE FUNCTION public.check_cart(_canteen_id UUID, _items JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(change), '[]'::jsonb)
+  FROM (
+    SELECT jsonb_build_object(
+      'menu_item_id', i.menu_item_id,
+      'option_ids', to_jsonb(COALESCE(i.option_ids, '{}'::UUID[])),
+      'name', m.name,
+      'reason', CASE
+        WHEN m.id IS NULL THEN 'not_found'
+        WHEN m.canteen_id <> _canteen_id THEN 'wrong_canteen'
+        WHEN NOT m.is_available THEN 'unavailable'
+        WHEN r.options IS NULL THEN 'options_changed'
+        ELSE 'price_changed'
+      END,
+      'expected_price', i.price,
+      'current_price', m.price + public.options_price_delta(r.options)
+    ) AS change
+    FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, price DECIMAL(10,2), option_ids UUID[])
+    LEFT JOIN menu_items m ON m.id = i.menu_item_id
+    CROSS JOIN LATERAL (
+      SELECT public.resolve_cart_options(i.menu_item_id, COALESCE(i.option_ids, '{}'::UUID[])) AS options
+    ) r
+    WHERE m.id IS NULL
+      OR m.canteen_id <> _canteen_id
+      OR NOT m.is_available
+      OR r.options IS NULL
+      OR i.price IS DISTINCT FROM m.price + public.options_price_delta(r.options)
+  ) changes
+$$;
+
+-- place_order keeps lines with different options apart and stores the
+-- options snapshot on each order item. _items lines are now
+-- { menu_item_id, quantity, price, option_ids? }.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _canteen_id UUID,
+  _items JSONB,
+  _pickup_slot_id UUID DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _changes JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Lock the priced rows so a concurrent menu edit cannot slip in
+  -- between validation and insert
+  PERFORM 1 FROM menu_items
+  WHERE id IN (SELECT menu_item_id FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID))
+  FOR SHARE;
+
+  PERFORM 1 FROM menu_options
+  WHERE id IN (
+    SELECT unnest(option_ids) FROM jsonb_to_recordset(_items) AS i(option_ids UUID[])
+  )
+  FOR SHARE;
+
+  _changes := public.check_cart(_canteen_id, _items);
+
+  IF jsonb_array_length(_changes) > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart has changed since you added these items',
+      DETAIL = _changes::TEXT,
+      HINT = 'cart_changed';
+  END IF;
+
+  -- Merge duplicate lines so each item and option combination appears
+  -- once, and price each line with its options
+  SELECT jsonb_agg(jsonb_build_object(
+    'menu_item_id', merged.menu_item_id,
+    'quantity', merged.quantity,
+    'options', r.options,
+    'price', m.price + public.options_price_delta(r.options)
+  ))
+  INTO _cart
+  FROM (
+    SELECT l.menu_item_id, l.option_ids, SUM(l.quantity)::INTEGER AS quantity
+    FROM (
+      SELECT i.menu_item_id, i.quantity,
+        ARRAY(SELECT DISTINCT x FROM unnest(COALESCE(i.option_ids, '{}'::UUID[])) x ORDER BY x) AS option_ids
+      FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER, option_ids UUID[])
+    ) l
+    GROUP BY l.menu_item_id, l.option_ids
+  ) merged
+  JOIN menu_items m ON m.id = merged.menu_item_id
+  CROSS JOIN LATERAL (
+    SELECT public.resolve_cart_options(merged.menu_item_id, merged.option_ids) AS options
+  ) r;
+
+  SELECT SUM(c.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(quantity INTEGER, price DECIMAL(10,2));
+
+  -- pickup_at is filled in by the assign_pickup_slot trigger
+  INSERT INTO orders (student_id, canteen_id, total_amount, status, pickup_slot_id)
+  VALUES (_student_id, _canteen_id, _total, 'pending', _pickup_slot_id)
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, selected_options)
+  SELECT _order.id, c.menu_item_id, c.quantity, c.price, c.options
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER, price DECIMAL(10,2), options JSONB);
+
+  UPDATE orders
+  SET estimated_prep_minutes = public.order_prep_minutes(id),
+      estimated_ready_at = pickup_at
+  WHERE id = _order.id;
+
+  PERFORM public.refresh_ready_estimates(_canteen_id, _order.id);
+
+  SELECT * INTO _order FROM orders WHERE id = _order.id;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID) TO authenticated;
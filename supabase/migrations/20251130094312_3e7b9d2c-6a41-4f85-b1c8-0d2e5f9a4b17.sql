@@ -0,0 +1,130 @@
+-- Free-text instructions from the student for the whole order
+ALTER TABLE public.orders
+  ADD COLUMN notes TEXT CHECK (char_length(notes) <= 200);
+
+-- place_order gains an optional note
+DROP FUNCTION public.place_order(UUID, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _canteen_id UUID,
+  _items JSONB,
+  _pickup_slot_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _changes JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  _notes := NULLIF(btrim(_notes), '');
+
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF char_length(_notes) > 200 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your note can be at most 200 characters',
+      HINT = 'notes_too_long';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Lock the priced rows so a concurrent menu edit cannot slip in
+  -- between validation and insert
+  PERFORM 1 FROM menu_items
+  WHERE id IN (SELECT menu_item_id FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID))
+  FOR SHARE;
+
+  PERFORM 1 FROM menu_options
+  WHERE id IN (
+    SELECT unnest(option_ids) FROM jsonb_to_recordset(_items) AS i(option_ids UUID[])
+  )
+  FOR SHARE;
+
+  _changes := public.check_cart(_canteen_id, _items);
+
+  IF jsonb_array_length(_changes) > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart has changed since you added these items',
+      DETAIL = _changes::TEXT,
+      HINT = 'cart_changed';
+  END IF;
+
+  -- Merge duplicate lines so each item and option combination appears
+  -- once, and price each line with its options
+  SELECT jsonb_agg(jsonb_build_object(
+    'menu_item_id', merged.menu_item_id,
+    'quantity', merged.quantity,
+    'options', r.options,
+    'price', m.price + public.options_price_delta(r.options)
+  ))
+  INTO _cart
+  FROM (
+    SELECT l.menu_item_id, l.option_ids, SUM(l.quantity)::INTEGER AS quantity
+    FROM (
+      SELECT i.menu_item_id, i.quantity,
+        ARRAY(SELECT DISTINCT x FROM unnest(COALESCE(i.option_ids, '{}'::UUID[])) x ORDER BY x) AS option_ids
+      FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER, option_ids UUID[])
+    ) l
+    GROUP BY l.menu_item_id, l.option_ids
+  ) merged
+  JOIN menu_items m ON m.id = merged.menu_item_id
+  CROSS JOIN LATERAL (
+    SELECT public.resolve_cart_options(merged.menu_item_id, merged.option_ids) AS options
+  ) r;
+
+  SELECT SUM(c.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(quantity INTEGER, price DECIMAL(10,2));
+
+  -- pickup_at is filled in by the assign_pickup_slot trigger
+  INSERT INTO orders (student_id, canteen_id, total_amount, status, pickup_slot_id, notes)
+  VALUES (_student_id, _canteen_id, _total, 'pending', _pickup_slot_id, _notes)
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, selected_options)
+  SELECT _order.id, c.menu_item_id, c.quantity, c.price, c.options
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER, price DECIMAL(10,2), options JSONB);
+
+  UPDATE orders
+  SET estimated_prep_minutes = public.order_prep_minutes(id),
+      estimated_ready_at = pickup_at
+  WHERE id = _order.id;
+
+  PERFORM public.refresh_ready_estimates(_canteen_id, _order.id);
+
+  SELECT * INTO _order FROM orders WHERE id = _order.id;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT) TO authenticated;
@@ -0,0 +1,39 @@
+-- Public bucket for canteen and menu item photos. Objects live under
+-- <canteen_id>/ and only that canteen's vendor can write them.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('menu-images', 'menu-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Everyone can view menu images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'menu-images');
+
+CREATE POLICY "Vendors can upload images for own canteens"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'menu-images'
+    AND EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id::TEXT = (storage.foldername(objects.name))[1] AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can update images for own canteens"
+  ON storage.objects FOR UPDATE
+  USING (
+    bucket_id = 'menu-images'
+    AND EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id::TEXT = (storage.foldername(objects.name))[1] AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can delete images for own canteens"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'menu-images'
+    AND EXISTS (
+      SELECT 1 FROM public.canteens
+      WHERE id::TEXT = (storage.foldername(objects.name))[1] AND vendor_id = auth.uid()
+    )
+  );
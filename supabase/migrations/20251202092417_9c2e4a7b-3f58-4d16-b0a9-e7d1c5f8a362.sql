@@ -0,0 +1,270 @@
+-- Optional daily stock per item. daily_stock is what the kitchen makes
+-- each day and stock_remaining counts down as orders come in; NULL means
+-- the item is not tracked.
+ALTER TABLE public.menu_items
+  ADD COLUMN daily_stock INTEGER CHECK (daily_stock IS NULL OR daily_stock >= 0),
+  ADD COLUMN stock_remaining INTEGER CHECK (stock_remaining IS NULL OR stock_remaining >= 0);
+
+-- Sell out automatically at zero, and come back when restocked unless
+-- the same update also changes is_available
+CREATE OR REPLACE FUNCTION public.sync_stock_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stock_remaining = 0 THEN
+    NEW.is_available := false;
+  ELSIF TG_OP = 'UPDATE'
+    AND OLD.stock_remaining = 0
+    AND NEW.stock_remaining > 0
+    AND NEW.is_available = OLD.is_available THEN
+    NEW.is_available := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_stock_availability
+BEFORE INSERT OR UPDATE OF stock_remaining ON menu_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_stock_availability();
+
+-- check_cart also reports lines whose item does not have enough stock
+-- left for the whole cart. available is the stock left.
+CREATE OR REPLACE FUNCTION public.check_cart(_canteen_id UUID, _items JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(change), '[]'::jsonb)
+  FROM (
+    SELECT jsonb_build_object(
+      'menu_item_id', i.menu_item_id,
+      'option_ids', to_jsonb(COALESCE(i.option_ids, '{}'::UUID[])),
+      'name', m.name,
+      'reason', CASE
+        WHEN m.id IS NULL THEN 'not_found'
+        WHEN m.canteen_id <> _canteen_id THEN 'wrong_canteen'
+        WHEN NOT m.is_available THEN 'unavailable'
+        WHEN r.options IS NULL THEN 'options_changed'
+        WHEN i.item_quantity > m.stock_remaining THEN 'low_stock'
+        ELSE 'price_changed'
+      END,
+      'expected_price', i.price,
+      'current_price', m.price + public.options_price_delta(r.options),
+      'available', m.stock_remaining
+    ) AS change
+    FROM (
+      SELECT l.*, SUM(l.quantity) OVER (PARTITION BY l.menu_item_id) AS item_quantity
+      FROM jsonb_to_recordset(_items)
+        AS l(menu_item_id UUID, quantity INTEGER, price DECIMAL(10,2), option_ids UUID[])
+    ) i
+    LEFT JOIN menu_items m ON m.id = i.menu_item_id
+    CROSS JOIN LATERAL (
+      SELECT public.resolve_cart_options(i.menu_item_id, COALESCE(i.option_ids, '{}'::UUID[])) AS options
+    ) r
+    WHERE m.id IS NULL
+      OR m.canteen_id <> _canteen_id
+      OR NOT m.is_available
+      OR r.options IS NULL
+      OR i.item_quantity > m.stock_remaining
+      OR i.price IS DISTINCT FROM m.price + public.options_price_delta(r.options)
+  ) changes
+$$;
+
+-- place_order takes the ordered quantities out of stock
+CREATE OR REPLACE FUNCTION public.place_order(
+  _canteen_id UUID,
+  _items JSONB,
+  _pickup_slot_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _order public.orders;
+  _cart JSONB;
+  _changes JSONB;
+  _total DECIMAL(10,2);
+BEGIN
+  _notes := NULLIF(btrim(_notes), '');
+
+  IF _student_id IS NULL OR NOT public.has_role(_student_id, 'student') THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Only students can place orders',
+      HINT = 'not_student';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart is empty',
+      HINT = 'empty_cart';
+  END IF;
+
+  IF char_length(_notes) > 200 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your note can be at most 200 characters',
+      HINT = 'notes_too_long';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This canteen no longer exists',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER)
+    WHERE menu_item_id IS NULL OR quantity IS NULL OR quantity < 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every cart item needs a quantity of at least 1',
+      HINT = 'invalid_quantity';
+  END IF;
+
+  -- Lock the priced rows so a concurrent menu edit cannot slip in
+  -- between validation and insert. The lock is exclusive because the
+  -- stock is decremented below; ordering by id avoids deadlocks between
+  -- carts that share items.
+  PERFORM 1 FROM menu_items
+  WHERE id IN (SELECT menu_item_id FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID))
+  ORDER BY id
+  FOR NO KEY UPDATE;
+
+  PERFORM 1 FROM menu_options
+  WHERE id IN (
+    SELECT unnest(option_ids) FROM jsonb_to_recordset(_items) AS i(option_ids UUID[])
+  )
+  FOR SHARE;
+
+  _changes := public.check_cart(_canteen_id, _items);
+
+  IF jsonb_array_length(_changes) > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Your cart has changed since you added these items',
+      DETAIL = _changes::TEXT,
+      HINT = 'cart_changed';
+  END IF;
+
+  -- Merge duplicate lines so each item and option combination appears
+  -- once, and price each line with its options
+  SELECT jsonb_agg(jsonb_build_object(
+    'menu_item_id', merged.menu_item_id,
+    'quantity', merged.quantity,
+    'options', r.options,
+    'price', m.price + public.options_price_delta(r.options)
+  ))
+  INTO _cart
+  FROM (
+    SELECT l.menu_item_id, l.option_ids, SUM(l.quantity)::INTEGER AS quantity
+    FROM (
+      SELECT i.menu_item_id, i.quantity,
+        ARRAY(SELECT DISTINCT x FROM unnest(COALESCE(i.option_ids, '{}'::UUID[])) x ORDER BY x) AS option_ids
+      FROM jsonb_to_recordset(_items) AS i(menu_item_id UUID, quantity INTEGER, option_ids UUID[])
+    ) l
+    GROUP BY l.menu_item_id, l.option_ids
+  ) merged
+  JOIN menu_items m ON m.id = merged.menu_item_id
+  CROSS JOIN LATERAL (
+    SELECT public.resolve_cart_options(merged.menu_item_id, merged.option_ids) AS options
+  ) r;
+
+  SELECT SUM(c.price * c.quantity) INTO _total
+  FROM jsonb_to_recordset(_cart) AS c(quantity INTEGER, price DECIMAL(10,2));
+
+  -- pickup_at is filled in by the assign_pickup_slot trigger
+  INSERT INTO orders (student_id, canteen_id, total_amount, status, pickup_slot_id, notes)
+  VALUES (_student_id, _canteen_id, _total, 'pending', _pickup_slot_id, _notes)
+  RETURNING * INTO _order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, selected_options)
+  SELECT _order.id, c.menu_item_id, c.quantity, c.price, c.options
+  FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER, price DECIMAL(10,2), options JSONB);
+
+  -- check_cart already made sure there is enough stock left
+  UPDATE menu_items m
+  SET stock_remaining = m.stock_remaining - c.quantity
+  FROM (
+    SELECT menu_item_id, SUM(quantity)::INTEGER AS quantity
+    FROM jsonb_to_recordset(_cart) AS c(menu_item_id UUID, quantity INTEGER)
+    GROUP BY menu_item_id
+  ) c
+  WHERE m.id = c.menu_item_id AND m.stock_remaining IS NOT NULL;
+
+  UPDATE orders
+  SET estimated_prep_minutes = public.order_prep_minutes(id),
+      estimated_ready_at = pickup_at
+  WHERE id = _order.id;
+
+  PERFORM public.refresh_ready_estimates(_canteen_id, _order.id);
+
+  SELECT * INTO _order FROM orders WHERE id = _order.id;
+
+  RETURN _order;
+END;
+$$;
+
+-- Put stock back when an order is cancelled or rejected. Lines rejected
+-- on their own are restored by restore_rejected_item_stock, so only the
+-- remaining lines count here.
+CREATE OR REPLACE FUNCTION public.restore_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('cancelled_by_student', 'rejected_by_vendor')
+    AND OLD.status NOT IN ('cancelled_by_student', 'rejected_by_vendor') THEN
+    UPDATE menu_items m
+    SET stock_remaining = m.stock_remaining + oi.quantity
+    FROM (
+      SELECT menu_item_id, SUM(quantity)::INTEGER AS quantity
+      FROM order_items
+      WHERE order_id = NEW.id AND rejection_reason IS NULL
+      GROUP BY menu_item_id
+    ) oi
+    WHERE m.id = oi.menu_item_id AND m.stock_remaining IS NOT NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER restore_order_stock
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.restore_order_stock();
+
+CREATE OR REPLACE FUNCTION public.restore_rejected_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.rejection_reason IS NULL AND NEW.rejection_reason IS NOT NULL THEN
+    UPDATE menu_items
+    SET stock_remaining = stock_remaining + NEW.quantity
+    WHERE id = NEW.menu_item_id AND stock_remaining IS NOT NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER restore_rejected_item_stock
+AFTER UPDATE OF rejection_reason ON order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.restore_rejected_item_stock();
+
+-- Students see stock counts and sell-outs live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.menu_items;
@@ -0,0 +1,193 @@
+-- Weekly availability windows per item, e.g. breakfast until 11:00.
+-- day_of_week follows EXTRACT(DOW): 0 = Sunday. An item without any rows
+-- is available whenever the canteen is open.
+CREATE TABLE public.menu_item_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE public.menu_item_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view menu item schedules"
+  ON public.menu_item_schedules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Vendors can manage schedules for own menu items"
+  ON public.menu_item_schedules FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.menu_items m
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE m.id = menu_item_schedules.menu_item_id AND c.vendor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.menu_items m
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE m.id = menu_item_schedules.menu_item_id AND c.vendor_id = auth.uid()
+    )
+  );
+
+-- Whether the item is inside one of its windows right now, kept up to
+-- date by refresh_menu_schedules. available_from is the start of the next
+-- window while it is not.
+ALTER TABLE public.menu_items
+  ADD COLUMN in_schedule BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN available_from TIMESTAMPTZ;
+
+-- Concrete windows of an item from today through the next _days days
+CREATE OR REPLACE FUNCTION public.menu_item_windows(_menu_item_id UUID, _days INTEGER DEFAULT 7)
+RETURNS TABLE (starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (d.day::DATE + s.starts_at) AT TIME ZONE c.timezone,
+    (d.day::DATE + s.ends_at) AT TIME ZONE c.timezone
+  FROM menu_items m
+  JOIN canteens c ON c.id = m.canteen_id
+  CROSS JOIN LATERAL generate_series(
+    (now() AT TIME ZONE c.timezone)::DATE,
+    (now() AT TIME ZONE c.timezone)::DATE + _days,
+    INTERVAL '1 day'
+  ) AS d(day)
+  JOIN menu_item_schedules s
+    ON s.menu_item_id = m.id AND s.day_of_week = EXTRACT(DOW FROM d.day)
+  WHERE m.id = _menu_item_id
+$$;
+
+-- Only rows that actually change are written, so realtime clients are
+-- not flooded every minute
+CREATE OR REPLACE FUNCTION public.refresh_menu_schedules()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE menu_items m
+  SET in_schedule = s.in_schedule,
+      available_from = s.available_from
+  FROM (
+    SELECT
+      m.id,
+      w.in_window OR NOT has_schedule AS in_schedule,
+      CASE WHEN w.in_window OR NOT has_schedule THEN NULL ELSE w.next_starts_at END AS available_from
+    FROM menu_items m
+    CROSS JOIN LATERAL (
+      SELECT EXISTS (SELECT 1 FROM menu_item_schedules x WHERE x.menu_item_id = m.id) AS has_schedule
+    ) h
+    CROSS JOIN LATERAL (
+      SELECT
+        COALESCE(bool_or(now() >= mw.starts_at AND now() < mw.ends_at), false) AS in_window,
+        MIN(mw.starts_at) FILTER (WHERE mw.starts_at > now()) AS next_starts_at
+      FROM public.menu_item_windows(m.id) mw
+    ) w
+    WHERE h.has_schedule OR NOT m.in_schedule
+  ) s
+  WHERE m.id = s.id
+    AND (m.in_schedule, m.available_from) IS DISTINCT FROM (s.in_schedule, s.available_from)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_menu_schedules() FROM PUBLIC, anon, authenticated;
+
+-- Apply schedule edits straight away instead of on the next cron run
+CREATE OR REPLACE FUNCTION public.refresh_menu_schedules_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_menu_schedules();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_menu_schedules
+AFTER INSERT OR UPDATE OR DELETE ON menu_item_schedules
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.refresh_menu_schedules_on_change();
+
+-- Items outside their window cannot be ordered
+CREATE OR REPLACE FUNCTION public.check_cart(_canteen_id UUID, _items JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(change), '[]'::jsonb)
+  FROM (
+    SELECT jsonb_build_object(
+      'menu_item_id', i.menu_item_id,
+      'option_ids', to_jsonb(COALESCE(i.option_ids, '{}'::UUID[])),
+      'name', m.name,
+      'reason', CASE
+        WHEN m.id IS NULL THEN 'not_found'
+        WHEN m.canteen_id <> _canteen_id THEN 'wrong_canteen'
+        WHEN NOT m.is_available OR NOT m.in_schedule THEN 'unavailable'
+        WHEN r.options IS NULL THEN 'options_changed'
+        WHEN i.item_quantity > m.stock_remaining THEN 'low_stock'
+        ELSE 'price_changed'
+      END,
+      'expected_price', i.price,
+      'current_price', m.price + public.options_price_delta(r.options),
+      'available', m.stock_remaining
+    ) AS change
+    FROM (
+      SELECT l.*, SUM(l.quantity) OVER (PARTITION BY l.menu_item_id) AS item_quantity
+      FROM jsonb_to_recordset(_items)
+        AS l(menu_item_id UUID, quantity INTEGER, price DECIMAL(10,2), option_ids UUID[])
+    ) i
+    LEFT JOIN menu_items m ON m.id = i.menu_item_id
+    CROSS JOIN LATERAL (
+      SELECT public.resolve_cart_options(i.menu_item_id, COALESCE(i.option_ids, '{}'::UUID[])) AS options
+    ) r
+    WHERE m.id IS NULL
+      OR m.canteen_id <> _canteen_id
+      OR NOT m.is_available
+      OR NOT m.in_schedule
+      OR r.options IS NULL
+      OR i.item_quantity > m.stock_remaining
+      OR i.price IS DISTINCT FROM m.price + public.options_price_delta(r.options)
+  ) changes
+$$;
+
+-- The local date stock was last reset. Defaults to the server date, so a
+-- new item keeps the stock it was created with until the next reset.
+ALTER TABLE public.menu_items
+  ADD COLUMN stock_reset_on DATE NOT NULL DEFAULT CURRENT_DATE;
+
+UPDATE public.menu_items m
+SET stock_reset_on = (now() AT TIME ZONE c.timezone)::DATE
+FROM public.canteens c
+WHERE c.id = m.canteen_id;
+
+-- Refill tracked items to their daily stock once a new day starts in the
+-- canteen's time zone. Items sold out at zero come back through
+-- sync_stock_availability.
+CREATE OR REPLACE FUNCTION public.reset_daily_stock()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE menu_items m
+  SET stock_remaining = m.daily_stock,
+      stock_reset_on = (now() AT TIME ZONE c.timezone)::DATE
+  FROM canteens c
+  WHERE c.id = m.canteen_id
+    AND m.stock_reset_on < (now() AT TIME ZONE c.timezone)::DATE
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reset_daily_stock() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('refresh-menu-schedules', '* * * * *', 'SELECT public.refresh_menu_schedules()');
+SELECT cron.schedule('reset-daily-stock', '*/15 * * * *', 'SELECT public.reset_daily_stock()');
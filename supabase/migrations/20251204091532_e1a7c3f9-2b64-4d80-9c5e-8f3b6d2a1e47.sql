@@ -0,0 +1,123 @@
+-- Bulk import from a spreadsheet. Items are matched to the existing menu
+-- by name, ignoring case; matches are updated and the rest are added at
+-- the end of their category. Categories named in the file that do not
+-- exist yet are created. Matched items keep their current value for any
+-- optional key (description, category, is_available, daily_stock) the
+-- item leaves out. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.import_menu_items(_canteen_id UUID, _items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _inserted INTEGER;
+  _updated INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM canteens WHERE id = _canteen_id AND vendor_id = auth.uid()) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Canteen not found',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'There are no items to import',
+      HINT = 'empty_import';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(name TEXT, price DECIMAL(10,2), daily_stock INTEGER)
+    WHERE COALESCE(btrim(i.name), '') = '' OR i.price IS NULL OR i.price <= 0 OR i.daily_stock < 0
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Every item needs a name and a price above 0',
+      HINT = 'invalid_row';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_items) AS i(name TEXT)
+    GROUP BY lower(btrim(i.name))
+    HAVING COUNT(*) > 1
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'The same item name appears more than once',
+      HINT = 'duplicate_name';
+  END IF;
+
+  INSERT INTO menu_categories (canteen_id, name, sort_order)
+  SELECT
+    _canteen_id,
+    MIN(n.category),
+    (SELECT COALESCE(MAX(sort_order), 0) FROM menu_categories WHERE canteen_id = _canteen_id)
+      + ROW_NUMBER() OVER (ORDER BY MIN(n.position))
+  FROM (
+    SELECT btrim(e.item->>'category') AS category, e.position
+    FROM jsonb_array_elements(_items) WITH ORDINALITY AS e(item, position)
+  ) n
+  WHERE COALESCE(n.category, '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM menu_categories c
+      WHERE c.canteen_id = _canteen_id AND lower(c.name) = lower(n.category)
+    )
+  GROUP BY lower(n.category);
+
+  WITH rows AS (
+    SELECT
+      btrim(e.item->>'name') AS name,
+      NULLIF(btrim(e.item->>'description'), '') AS description,
+      (e.item->>'price')::DECIMAL(10,2) AS price,
+      COALESCE((e.item->>'is_available')::BOOLEAN, true) AS is_available,
+      (e.item->>'daily_stock')::INTEGER AS daily_stock,
+      c.id AS category_id,
+      e.item ? 'description' AS has_description,
+      e.item ? 'is_available' AS has_is_available,
+      e.item ? 'daily_stock' AS has_daily_stock,
+      e.item ? 'category' AS has_category,
+      e.position
+    FROM jsonb_array_elements(_items) WITH ORDINALITY AS e(item, position)
+    LEFT JOIN menu_categories c
+      ON c.canteen_id = _canteen_id AND lower(c.name) = lower(btrim(e.item->>'category'))
+  ),
+  updated AS (
+    UPDATE menu_items m
+    SET description = CASE WHEN r.has_description THEN r.description ELSE m.description END,
+        price = r.price,
+        is_available = CASE WHEN r.has_is_available THEN r.is_available ELSE m.is_available END,
+        category_id = CASE WHEN r.has_category THEN r.category_id ELSE m.category_id END,
+        daily_stock = CASE WHEN r.has_daily_stock THEN r.daily_stock ELSE m.daily_stock END,
+        -- A changed daily stock starts today's count over
+        stock_remaining = CASE
+          WHEN r.has_daily_stock AND r.daily_stock IS DISTINCT FROM m.daily_stock THEN r.daily_stock
+          ELSE m.stock_remaining
+        END
+    FROM rows r
+    WHERE m.canteen_id = _canteen_id AND lower(m.name) = lower(r.name)
+    RETURNING m.id
+  ),
+  inserted AS (
+    INSERT INTO menu_items (
+      canteen_id, name, description, price, is_available, category_id,
+      daily_stock, stock_remaining, sort_order
+    )
+    SELECT
+      _canteen_id, r.name, r.description, r.price, r.is_available, r.category_id,
+      r.daily_stock, r.daily_stock,
+      (
+        SELECT COALESCE(MAX(m.sort_order), 0) FROM menu_items m
+        WHERE m.canteen_id = _canteen_id AND m.category_id IS NOT DISTINCT FROM r.category_id
+      ) + ROW_NUMBER() OVER (PARTITION BY r.category_id ORDER BY r.position)
+    FROM rows r
+    WHERE NOT EXISTS (
+      SELECT 1 FROM menu_items m
+      WHERE m.canteen_id = _canteen_id AND lower(m.name) = lower(r.name)
+    )
+    RETURNING id
+  )
+  SELECT (SELECT COUNT(*) FROM inserted), (SELECT COUNT(*) FROM updated)
+  INTO _inserted, _updated;
+
+  RETURN jsonb_build_object('inserted', _inserted, 'updated', _updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_menu_items(UUID, JSONB) TO authenticated;
@@ -0,0 +1,180 @@
+-- Orders that count as sales: everything except cancelled and rejected
+-- orders, with the time they were placed in the canteen's time zone.
+-- security_invoker keeps the orders RLS, so vendors only see their own.
+CREATE VIEW public.canteen_sales
+WITH (security_invoker = true)
+AS
+  SELECT
+    o.id AS order_id,
+    o.canteen_id,
+    o.total_amount,
+    o.created_at,
+    o.created_at AT TIME ZONE c.timezone AS local_created_at
+  FROM orders o
+  JOIN canteens c ON c.id = o.canteen_id
+  WHERE o.status NOT IN ('cancelled_by_student', 'rejected_by_vendor');
+
+-- How often each item was shown to students, one row per item and local
+-- day. Written only through record_menu_views.
+CREATE TABLE public.menu_item_views (
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  viewed_on DATE NOT NULL,
+  views INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (menu_item_id, viewed_on)
+);
+
+ALTER TABLE public.menu_item_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view menu item views for own canteens"
+  ON public.menu_item_views FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.menu_items m
+      JOIN public.canteens c ON c.id = m.canteen_id
+      WHERE m.id = menu_item_views.menu_item_id AND c.vendor_id = auth.uid()
+    )
+  );
+
+-- Count one view for each distinct item of the given canteen; ids from
+-- other canteens are ignored
+CREATE OR REPLACE FUNCTION public.record_menu_views(_canteen_id UUID, _menu_item_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO menu_item_views (menu_item_id, viewed_on, views)
+  SELECT m.id, (now() AT TIME ZONE c.timezone)::DATE, 1
+  FROM menu_items m
+  JOIN canteens c ON c.id = m.canteen_id
+  WHERE m.canteen_id = _canteen_id
+    AND m.id IN (SELECT DISTINCT unnest(_menu_item_ids))
+  ON CONFLICT (menu_item_id, viewed_on)
+  DO UPDATE SET views = menu_item_views.views + 1
+$$;
+
+-- The analytics functions below run as the caller, so RLS limits them to
+-- the vendor's own canteen. _from is inclusive and _to exclusive.
+
+CREATE OR REPLACE FUNCTION public.get_sales_summary(_canteen_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  order_count INTEGER,
+  revenue DECIMAL(10,2),
+  average_order_value DECIMAL(10,2),
+  lost_order_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(s.total_amount), 0),
+    COALESCE(ROUND(AVG(s.total_amount), 2), 0),
+    (
+      SELECT COUNT(*)::INTEGER FROM orders o
+      WHERE o.canteen_id = _canteen_id
+        AND o.created_at >= _from AND o.created_at < _to
+        AND o.status IN ('cancelled_by_student', 'rejected_by_vendor')
+    )
+  FROM canteen_sales s
+  WHERE s.canteen_id = _canteen_id AND s.created_at >= _from AND s.created_at < _to
+$$;
+
+-- Revenue per local day or week (weeks start on Monday), including empty
+-- periods so charts have no gaps. _period is 'day' or 'week'.
+CREATE OR REPLACE FUNCTION public.get_sales_by_period(
+  _canteen_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _period TEXT DEFAULT 'day'
+)
+RETURNS TABLE (period_start DATE, order_count INTEGER, revenue DECIMAL(10,2))
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.start::DATE, COUNT(s.order_id)::INTEGER, COALESCE(SUM(s.total_amount), 0)
+  FROM canteens c
+  CROSS JOIN LATERAL generate_series(
+    date_trunc(_period, _from AT TIME ZONE c.timezone),
+    _to AT TIME ZONE c.timezone,
+    ('1 ' || _period)::INTERVAL
+  ) AS p(start)
+  LEFT JOIN canteen_sales s
+    ON s.canteen_id = c.id
+    AND date_trunc(_period, s.local_created_at) = p.start
+    AND s.created_at >= _from AND s.created_at < _to
+  WHERE c.id = _canteen_id AND _period IN ('day', 'week')
+  GROUP BY p.start
+  ORDER BY p.start
+$$;
+
+-- Best sellers by quantity. views counts how often the item was shown in
+-- the same period, for ordered-vs-viewed conversion.
+CREATE OR REPLACE FUNCTION public.get_top_items(
+  _canteen_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  menu_item_id UUID,
+  name TEXT,
+  quantity INTEGER,
+  revenue DECIMAL(10,2),
+  order_count INTEGER,
+  views INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.name,
+    SUM(oi.quantity)::INTEGER,
+    SUM(oi.price * oi.quantity),
+    COUNT(DISTINCT oi.order_id)::INTEGER,
+    -- Views are only kept per day, so count the days that start inside
+    -- [_from, _to); a range of N days then compares N days of views with
+    -- N days of sales
+    (
+      SELECT COALESCE(SUM(v.views), 0)::INTEGER FROM menu_item_views v
+      WHERE v.menu_item_id = m.id
+        AND v.viewed_on::TIMESTAMP AT TIME ZONE c.timezone >= _from
+        AND v.viewed_on::TIMESTAMP AT TIME ZONE c.timezone < _to
+    )
+  FROM canteen_sales s
+  JOIN order_items oi ON oi.order_id = s.order_id AND oi.rejection_reason IS NULL
+  JOIN menu_items m ON m.id = oi.menu_item_id
+  JOIN canteens c ON c.id = s.canteen_id
+  WHERE s.canteen_id = _canteen_id AND s.created_at >= _from AND s.created_at < _to
+  GROUP BY m.id, m.name, c.timezone
+  ORDER BY 3 DESC, 4 DESC
+  LIMIT _limit
+$$;
+
+-- Orders per local weekday (0 = Sunday) and hour, for the heatmap
+CREATE OR REPLACE FUNCTION public.get_peak_hours(_canteen_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (day_of_week SMALLINT, hour SMALLINT, order_count INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    EXTRACT(DOW FROM s.local_created_at)::SMALLINT,
+    EXTRACT(HOUR FROM s.local_created_at)::SMALLINT,
+    COUNT(*)::INTEGER
+  FROM canteen_sales s
+  WHERE s.canteen_id = _canteen_id AND s.created_at >= _from AND s.created_at < _to
+  GROUP BY 1, 2
+$$;
+
+GRANT SELECT ON public.canteen_sales TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_menu_views(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_menu_views(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sales_summary(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sales_by_period(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_top_items(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_peak_hours(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,41 @@
+-- End-of-day settlement for a range of local dates (inclusive). Both
+-- functions run as the caller, so RLS limits them to the vendor's own
+-- canteen.
+
+-- Orders and their value per status
+CREATE OR REPLACE FUNCTION public.get_settlement_by_status(_canteen_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (status TEXT, order_count INTEGER, amount DECIMAL(10,2))
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT o.status, COUNT(*)::INTEGER, SUM(o.total_amount)
+  FROM orders o
+  JOIN canteens c ON c.id = o.canteen_id
+  WHERE o.canteen_id = _canteen_id
+    AND (o.created_at AT TIME ZONE c.timezone)::DATE BETWEEN _from AND _to
+  GROUP BY o.status
+$$;
+
+-- Items handed over in completed orders, which is what the till should
+-- have been paid for. Lines the vendor rejected are left out.
+CREATE OR REPLACE FUNCTION public.get_settlement_items(_canteen_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (menu_item_id UUID, name TEXT, quantity INTEGER, amount DECIMAL(10,2))
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.id, m.name, SUM(oi.quantity)::INTEGER, SUM(oi.price * oi.quantity)
+  FROM orders o
+  JOIN canteens c ON c.id = o.canteen_id
+  JOIN order_items oi ON oi.order_id = o.id AND oi.rejection_reason IS NULL
+  JOIN menu_items m ON m.id = oi.menu_item_id
+  WHERE o.canteen_id = _canteen_id
+    AND o.status = 'completed'
+    AND (o.created_at AT TIME ZONE c.timezone)::DATE BETWEEN _from AND _to
+  GROUP BY m.id, m.name
+  ORDER BY 3 DESC, m.name
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_settlement_by_status(UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_settlement_items(UUID, DATE, DATE) TO authenticated;
@@ -0,0 +1,191 @@
+-- Signed QR payloads for pickup verification. The payload is
+-- cg1.<order id>.<pickup code>.<signature>, where the signature is an
+-- HMAC-SHA256 of the order id and code under a server-side key, so a
+-- student cannot forge a QR for someone else's order
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Single-row signing key. RLS is on with no policies, so only the
+-- definer functions below can read it
+CREATE TABLE public.pickup_qr_keys (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pickup_qr_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.pickup_qr_keys DEFAULT VALUES;
+
+CREATE OR REPLACE FUNCTION public.pickup_qr_signature(_order_id UUID, _pickup_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(extensions.hmac(_order_id::TEXT || '.' || _pickup_code, k.secret, 'sha256'), 'hex')
+  FROM pickup_qr_keys k
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pickup_qr_signature(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The QR payload for one of the caller's own orders
+CREATE OR REPLACE FUNCTION public.get_pickup_qr(_order_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _order_id AND student_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Order not found',
+      HINT = 'order_not_found';
+  END IF;
+
+  RETURN format(
+    'cg1.%s.%s.%s',
+    _order.id,
+    _order.pickup_code,
+    public.pickup_qr_signature(_order.id, _order.pickup_code)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_pickup_qr(UUID) TO authenticated;
+
+-- Shared validation for the scanner RPCs: the payload must be well formed
+-- and correctly signed, and the order must belong to the caller's canteen
+-- and be waiting at the counter
+CREATE OR REPLACE FUNCTION public.lock_order_for_pickup_qr(_canteen_id UUID, _payload TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[];
+  _order public.orders;
+  _order_canteen TEXT;
+  _timezone TEXT;
+  _collected_at TIMESTAMPTZ;
+BEGIN
+  SELECT timezone INTO _timezone
+  FROM canteens
+  WHERE id = _canteen_id AND vendor_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Canteen not found',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  _parts := regexp_match(
+    btrim(_payload),
+    '^cg1\.([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.([0-9]{6})\.([0-9a-f]{64})$'
+  );
+
+  IF _parts IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This is not a CanteenGo pickup QR code',
+      HINT = 'invalid_qr';
+  END IF;
+
+  IF public.pickup_qr_signature(_parts[1]::UUID, _parts[2]) IS DISTINCT FROM _parts[3] THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This QR code could not be verified. Ask for the pickup code instead',
+      HINT = 'invalid_signature';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _parts[1]::UUID
+  FOR UPDATE;
+
+  IF NOT FOUND OR _order.pickup_code IS DISTINCT FROM _parts[2] THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Order not found',
+      HINT = 'order_not_found';
+  END IF;
+
+  IF _order.canteen_id <> _canteen_id THEN
+    SELECT name INTO _order_canteen FROM canteens WHERE id = _order.canteen_id;
+    RAISE EXCEPTION USING
+      MESSAGE = format('Order #%s was placed at %s, not at this canteen', _order.pickup_code, _order_canteen),
+      HINT = 'wrong_canteen';
+  END IF;
+
+  IF _order.status = 'completed' THEN
+    SELECT max(created_at) INTO _collected_at
+    FROM order_status_events
+    WHERE order_id = _order.id AND to_status = 'completed';
+
+    RAISE EXCEPTION USING
+      MESSAGE = format(
+        'Order #%s was already collected%s',
+        _order.pickup_code,
+        COALESCE(' at ' || to_char(_collected_at AT TIME ZONE _timezone, 'HH24:MI'), '')
+      ),
+      HINT = 'already_collected';
+  END IF;
+
+  IF _order.status <> 'ready' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = CASE
+        WHEN _order.status IN ('pending', 'accepted', 'preparing')
+          THEN format('Order #%s is not ready yet', _order.pickup_code)
+        ELSE format('Order #%s is closed and cannot be collected', _order.pickup_code)
+      END,
+      HINT = 'not_ready';
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_order_for_pickup_qr(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Check a scanned code without changing the order
+CREATE OR REPLACE FUNCTION public.verify_pickup_qr(_canteen_id UUID, _payload TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.lock_order_for_pickup_qr(_canteen_id, _payload);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_pickup_qr(UUID, TEXT) TO authenticated;
+
+-- Hand a scanned order over. Re-checks the payload under the row lock so
+-- a second scan of the same code cannot complete it twice
+CREATE OR REPLACE FUNCTION public.complete_pickup_qr(_canteen_id UUID, _payload TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  _order := public.lock_order_for_pickup_qr(_canteen_id, _payload);
+
+  UPDATE orders
+  SET status = 'completed'
+  WHERE id = _order.id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_pickup_qr(UUID, TEXT) TO authenticated;
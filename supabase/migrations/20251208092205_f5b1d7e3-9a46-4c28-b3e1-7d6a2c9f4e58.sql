@@ -0,0 +1,241 @@
+-- Who handed each order over at the counter, and when
+ALTER TABLE public.orders
+  ADD COLUMN handed_over_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN handed_over_at TIMESTAMP WITH TIME ZONE;
+
+-- Pickup codes are only shown at one counter, so they need to be unique
+-- per canteen rather than across the whole campus. Code generation takes a
+-- per-canteen lock held until the order commits, so two orders placed at
+-- the same moment cannot draw the same code; the unique index below is a
+-- last line of defence, not something callers are expected to hit
+DROP FUNCTION generate_pickup_code();
+
+CREATE OR REPLACE FUNCTION public.generate_pickup_code(_canteen_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('pickup_code:' || _canteen_id::TEXT));
+
+  LOOP
+    code := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM orders
+      WHERE canteen_id = _canteen_id
+        AND pickup_code = code
+        AND status IN ('pending', 'accepted', 'preparing', 'ready')
+    );
+  END LOOP;
+
+  RETURN code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_pickup_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.pickup_code := public.generate_pickup_code(NEW.canteen_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE UNIQUE INDEX orders_active_pickup_code_key
+ON public.orders (canteen_id, pickup_code)
+WHERE status IN ('pending', 'accepted', 'preparing', 'ready');
+
+-- Orders can only be completed by the hand-over RPCs below, which set
+-- this transaction-local flag for the one order they verified
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format('Cannot move an order from %s to %s', OLD.status, NEW.status),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF NEW.status = 'completed'
+    AND current_setting('canteengo.verified_pickup', true) IS DISTINCT FROM NEW.id::TEXT THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Enter the pickup code or scan the QR code to hand this order over',
+      HINT = 'code_required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Complete a ready order once complete_order_by_code or complete_pickup_qr
+-- has checked its code. Not callable over the API; the ownership check
+-- guards against it being reached some other way
+CREATE OR REPLACE FUNCTION public.hand_over_order(_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  PERFORM 1
+  FROM orders o
+  JOIN canteens c ON c.id = o.canteen_id
+  WHERE o.id = _order_id
+    AND o.status = 'ready'
+    AND c.vendor_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Order not found',
+      HINT = 'order_not_found';
+  END IF;
+
+  PERFORM set_config('canteengo.verified_pickup', _order_id::TEXT, true);
+
+  UPDATE orders
+  SET status = 'completed',
+      handed_over_by = auth.uid(),
+      handed_over_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  PERFORM set_config('canteengo.verified_pickup', '', true);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hand_over_order(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.complete_pickup_qr(_canteen_id UUID, _payload TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  _order := public.lock_order_for_pickup_qr(_canteen_id, _payload);
+  RETURN public.hand_over_order(_order.id);
+END;
+$$;
+
+-- Unknown codes typed at each counter, for rate limiting. RLS is on with
+-- no policies; only complete_order_by_code reads and writes it
+CREATE TABLE public.pickup_code_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  attempted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  code TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pickup_code_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX pickup_code_attempts_canteen_id_created_at_idx
+ON public.pickup_code_attempts (canteen_id, created_at);
+
+-- Hand over the ready order with this code at the caller's canteen.
+-- Five unknown codes within ten minutes lock the counter until the oldest
+-- of them ages out, which makes guessing a 6-digit code impractical.
+-- An unknown code returns NULL instead of raising, since raising would
+-- roll back the attempt being recorded
+CREATE OR REPLACE FUNCTION public.complete_order_by_code(_canteen_id UUID, _code TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timezone TEXT;
+  _failed INTEGER;
+  _retry_at TIMESTAMPTZ;
+  _order public.orders;
+BEGIN
+  SELECT timezone INTO _timezone
+  FROM canteens
+  WHERE id = _canteen_id AND vendor_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Canteen not found',
+      HINT = 'canteen_not_found';
+  END IF;
+
+  SELECT count(*), min(created_at) + interval '10 minutes'
+  INTO _failed, _retry_at
+  FROM pickup_code_attempts
+  WHERE canteen_id = _canteen_id
+    AND created_at > now() - interval '10 minutes';
+
+  IF _failed >= 5 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format(
+        'Too many wrong codes. Try again in %s min or scan the QR code',
+        ceil(extract(epoch FROM _retry_at - now()) / 60)
+      ),
+      HINT = 'too_many_attempts';
+  END IF;
+
+  _code := btrim(_code);
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE canteen_id = _canteen_id
+    AND pickup_code = _code
+    AND status IN ('pending', 'accepted', 'preparing', 'ready')
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF _order.status <> 'ready' THEN
+      RAISE EXCEPTION USING
+        MESSAGE = format('Order #%s is not ready yet', _order.pickup_code),
+        HINT = 'not_ready';
+    END IF;
+
+    RETURN public.hand_over_order(_order.id);
+  END IF;
+
+  -- A code handed over moments ago is a repeat, not a guess
+  SELECT * INTO _order
+  FROM orders
+  WHERE canteen_id = _canteen_id
+    AND pickup_code = _code
+    AND status = 'completed'
+    AND handed_over_at > now() - interval '1 hour'
+  ORDER BY handed_over_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format(
+        'Order #%s was already collected at %s',
+        _order.pickup_code,
+        to_char(_order.handed_over_at AT TIME ZONE _timezone, 'HH24:MI')
+      ),
+      HINT = 'already_collected';
+  END IF;
+
+  INSERT INTO pickup_code_attempts (canteen_id, attempted_by, code)
+  VALUES (_canteen_id, auth.uid(), _code);
+
+  DELETE FROM pickup_code_attempts WHERE created_at < now() - interval '1 day';
+
+  RETURN NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_order_by_code(UUID, TEXT) TO authenticated;
@@ -0,0 +1,188 @@
+-- No-show policy per canteen. Ready orders that are not collected within
+-- the grace period become no-shows; NULL turns the expiry off. Students
+-- with at least no_show_threshold no-shows at the canteen either have to
+-- pay at the counter before their order is accepted, or cannot order at
+-- all; a NULL threshold means no restriction
+ALTER TABLE public.canteens
+  ADD COLUMN no_show_grace_minutes INTEGER
+    CHECK (no_show_grace_minutes IS NULL OR no_show_grace_minutes > 0),
+  ADD COLUMN no_show_threshold INTEGER
+    CHECK (no_show_threshold IS NULL OR no_show_threshold > 0),
+  ADD COLUMN no_show_action TEXT NOT NULL DEFAULT 'prepay'
+    CHECK (no_show_action IN ('prepay', 'block'));
+
+-- Orders placed under the prepay rule, and when the vendor took payment
+ALTER TABLE public.orders
+  ADD COLUMN prepayment_required BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+-- Running no-show count per student and canteen. Vendors can reset a
+-- student's count once they have sorted it out with them
+CREATE TABLE public.student_no_shows (
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  no_show_count INTEGER NOT NULL DEFAULT 0 CHECK (no_show_count >= 0),
+  last_no_show_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (student_id, canteen_id)
+);
+
+ALTER TABLE public.student_no_shows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view own no-shows"
+  ON public.student_no_shows FOR SELECT
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Vendors can view no-shows for own canteens"
+  ON public.student_no_shows FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM canteens
+      WHERE id = student_no_shows.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can reset no-shows for own canteens"
+  ON public.student_no_shows FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM canteens
+      WHERE id = student_no_shows.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.count_no_show()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO student_no_shows (student_id, canteen_id, no_show_count, last_no_show_at)
+  VALUES (NEW.student_id, NEW.canteen_id, 1, now())
+  ON CONFLICT (student_id, canteen_id) DO UPDATE
+  SET no_show_count = student_no_shows.no_show_count + 1,
+      last_no_show_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER count_no_show
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (NEW.status = 'no_show' AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.count_no_show();
+
+-- Apply the canteen's no-show rule to new orders
+CREATE OR REPLACE FUNCTION public.apply_no_show_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _canteen public.canteens;
+  _no_shows INTEGER;
+BEGIN
+  SELECT * INTO _canteen FROM canteens WHERE id = NEW.canteen_id;
+
+  IF _canteen.no_show_threshold IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT no_show_count INTO _no_shows
+  FROM student_no_shows
+  WHERE student_id = NEW.student_id AND canteen_id = NEW.canteen_id;
+
+  IF COALESCE(_no_shows, 0) < _canteen.no_show_threshold THEN
+    RETURN NEW;
+  END IF;
+
+  IF _canteen.no_show_action = 'block' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format(
+        'You missed %s pickups at this canteen, so ordering is blocked. Speak to the canteen to restore it',
+        _no_shows
+      ),
+      HINT = 'no_show_blocked';
+  END IF;
+
+  NEW.prepayment_required := true;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_no_show_policy
+BEFORE INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_no_show_policy();
+
+-- Prepay orders wait in pending until the vendor has taken payment
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format('Cannot move an order from %s to %s', OLD.status, NEW.status),
+      HINT = 'invalid_transition';
+  END IF;
+
+  IF NEW.status = 'completed'
+    AND current_setting('canteengo.verified_pickup', true) IS DISTINCT FROM NEW.id::TEXT THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Enter the pickup code or scan the QR code to hand this order over',
+      HINT = 'code_required';
+  END IF;
+
+  IF NEW.status = 'accepted' AND NEW.prepayment_required AND NEW.paid_at IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Take payment for this order before accepting it',
+      HINT = 'payment_required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Move ready orders that were not collected in time to no_show. The
+-- clock starts when the order became ready, or at its pickup time if the
+-- kitchen finished it early. Orders that became ready before status events
+-- were recorded fall back to when they were placed
+CREATE OR REPLACE FUNCTION public.expire_ready_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired INTEGER;
+BEGIN
+  UPDATE orders o
+  SET status = 'no_show'
+  FROM canteens c
+  WHERE c.id = o.canteen_id
+    AND o.status = 'ready'
+    AND c.no_show_grace_minutes IS NOT NULL
+    AND GREATEST(
+      COALESCE(
+        (
+          SELECT max(e.created_at)
+          FROM order_status_events e
+          WHERE e.order_id = o.id AND e.to_status = 'ready'
+        ),
+        o.created_at
+      ),
+      o.pickup_at
+    ) < now() - make_interval(mins => c.no_show_grace_minutes);
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_ready_orders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('expire-ready-orders', '* * * * *', 'SELECT public.expire_ready_orders()');
@@ -0,0 +1,162 @@
+-- Links for the customer-facing pickup board at /display/:canteenId. The
+-- board is shown on a TV without a vendor login, so it authenticates with
+-- one of these tokens, which only grants the pickup codes of one canteen
+-- and can be revoked at any time
+CREATE TABLE public.display_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canteen_id UUID NOT NULL REFERENCES public.canteens(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 60),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX display_tokens_canteen_id_idx ON public.display_tokens (canteen_id);
+
+ALTER TABLE public.display_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view display tokens for own canteens"
+  ON public.display_tokens FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM canteens
+      WHERE id = display_tokens.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can create display tokens for own canteens"
+  ON public.display_tokens FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM canteens
+      WHERE id = display_tokens.canteen_id AND vendor_id = auth.uid()
+    )
+  );
+
+-- There is no UPDATE policy: links are revoked through
+-- revoke_display_token, so a revoked token can never be brought back
+CREATE OR REPLACE FUNCTION public.revoke_display_token(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE display_tokens t
+  SET revoked_at = now()
+  FROM canteens c
+  WHERE t.id = _id
+    AND c.id = t.canteen_id
+    AND c.vendor_id = auth.uid()
+    AND t.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'Display link not found',
+      HINT = 'display_token_not_found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revoke_display_token(UUID) TO authenticated;
+
+-- Pickup codes being prepared or ready at the canteen. Only codes leave
+-- the database here, never names or items
+CREATE OR REPLACE FUNCTION public.get_display_board(_canteen_id UUID, _token TEXT)
+RETURNS TABLE (
+  pickup_code TEXT,
+  status TEXT,
+  ready_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM display_tokens t
+    WHERE t.canteen_id = _canteen_id AND t.token = _token AND t.revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'This display link is invalid or has been revoked',
+      HINT = 'invalid_display_token';
+  END IF;
+
+  -- Lets vendors see which screens are still in use, without a write
+  -- on every refresh
+  UPDATE display_tokens t
+  SET last_seen_at = now()
+  WHERE t.token = _token
+    AND (t.last_seen_at IS NULL OR t.last_seen_at < now() - interval '5 minutes');
+
+  RETURN QUERY
+  SELECT
+    o.pickup_code,
+    o.status,
+    (
+      SELECT max(e.created_at)
+      FROM order_status_events e
+      WHERE e.order_id = o.id AND e.to_status = 'ready'
+    )
+  FROM orders o
+  WHERE o.canteen_id = _canteen_id
+    AND o.status IN ('accepted', 'preparing', 'ready')
+  ORDER BY o.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_display_board(UUID, TEXT) TO anon, authenticated;
+
+-- Boards are not logged in, so they cannot receive postgres_changes on
+-- orders through RLS. Instead every status change is broadcast to one
+-- public topic per live token; a revoked token simply stops receiving
+CREATE OR REPLACE FUNCTION public.broadcast_display_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT;
+BEGIN
+  FOR _token IN
+    SELECT token FROM display_tokens
+    WHERE canteen_id = NEW.canteen_id AND revoked_at IS NULL
+  LOOP
+    PERFORM realtime.send(
+      jsonb_build_object('pickup_code', NEW.pickup_code, 'status', NEW.status),
+      'order_status',
+      'display:' || _token,
+      false
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER broadcast_display_update
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.broadcast_display_update();
+
+-- Tell a board straight away when its link is revoked
+CREATE OR REPLACE FUNCTION public.broadcast_display_revoked()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send('{}'::JSONB, 'revoked', 'display:' || NEW.token, false);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER broadcast_display_revoked
+AFTER UPDATE OF revoked_at ON display_tokens
+FOR EACH ROW
+WHEN (OLD.revoked_at IS NULL AND NEW.revoked_at IS NOT NULL)
+EXECUTE FUNCTION public.broadcast_display_revoked();